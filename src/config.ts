@@ -10,6 +10,27 @@
 
 import { z } from 'zod';
 
+/**
+ * User-defined strategy preset (see StrategyPreset)
+ */
+const StrategyPresetSchema = z.object({
+  description: z.string().optional(),
+  stopOnEntry: z.boolean().optional(),
+  entryMode: z.enum(['first_line', 'app_code']).optional(),
+  stopOnException: z.boolean().optional(),
+  exceptionFilter: z
+    .object({
+      include: z.array(z.string()).optional(),
+      exclude: z.array(z.string()).optional(),
+      skipVendor: z.boolean().optional(),
+    })
+    .optional(),
+  errorLevels: z.array(z.enum(['Warning', 'Notice', 'Deprecated'])).optional(),
+  autoSnapshot: z.boolean().optional(),
+  justMyCode: z.boolean().optional(),
+  watchdogTimeout: z.number().int().min(30_000).max(3_600_000).optional(),
+});
+
 /**
  * Configuration schema with validation
  */
@@ -35,6 +56,39 @@ const ConfigSchema = z.object({
   /** Default children limit for initial inspection (default: 20) */
   defaultMaxChildren: z.number().int().min(1).max(100).default(20),
 
+  /** Record a snapshot of all locals at every pause (default: false) */
+  autoSnapshot: z.boolean().default(false),
+
+  /** Maximum locals captured per snapshot (default: 50) */
+  snapshotMaxVariables: z.number().int().min(1).max(500).default(50),
+
+  /** Nesting depth captured per local (default: 1) */
+  snapshotMaxDepth: z.number().int().min(1).max(3).default(1),
+
+  /** Children captured per array/object (default: 10) */
+  snapshotMaxChildren: z.number().int().min(1).max(100).default(10),
+
+  /** Serialized size above which a local is stored as a summary (default: 4KB) */
+  snapshotMaxValueBytes: z.number().int().min(256).max(65_536).default(4096),
+
+  /** Script output kept per session, in UTF-16 characters rather than bytes (default: 65,536) */
+  outputBufferSize: z.number().int().min(1024).max(10_485_760).default(65_536),
+
+  /** Output tail included in pause responses, in UTF-16 characters (default: 500) */
+  outputTailSize: z.number().int().min(0).max(10_000).default(500),
+
+  /** Files just-my-code stepping passes over (default: vendor/**) */
+  skipGlobs: z.array(z.string().min(1)).default(['vendor/**']),
+
+  /** Application directories for entry mode 'app_code', relative to the project root */
+  appDirs: z.array(z.string().min(1)).default(['app/', 'src/']),
+
+  /** Steps taken looking for application code before pausing anyway (default: 10000) */
+  entryMaxSteps: z.number().int().min(1).max(1_000_000).default(10_000),
+
+  /** User-defined strategy presets, by name; a built-in name is replaced */
+  strategies: z.record(StrategyPresetSchema).optional(),
+
   /** Enable debug logging (default: false) */
   debug: z.boolean().default(false),
 
@@ -68,6 +122,16 @@ export const DEFAULT_CONFIG: Config = {
   maxDepth: 3,
   maxChildren: 100,
   defaultMaxChildren: 20,
+  autoSnapshot: false,
+  snapshotMaxVariables: 50,
+  snapshotMaxDepth: 1,
+  snapshotMaxChildren: 10,
+  snapshotMaxValueBytes: 4096,
+  outputBufferSize: 65_536,
+  outputTailSize: 500,
+  skipGlobs: ['vendor/**'],
+  appDirs: ['app/', 'src/'],
+  entryMaxSteps: 10_000,
   debug: false,
 };
 
@@ -92,6 +156,22 @@ export function loadConfig(overrides?: Partial<Config>): Config {
   if (process.env.XDEBUG_MCP_DATA_DIR) {
     envConfig.dataDir = process.env.XDEBUG_MCP_DATA_DIR;
   }
+  if (process.env.XDEBUG_MCP_AUTO_SNAPSHOT) {
+    envConfig.autoSnapshot = process.env.XDEBUG_MCP_AUTO_SNAPSHOT === 'true';
+  }
+  if (process.env.XDEBUG_MCP_SKIP_GLOBS) {
+    envConfig.skipGlobs = process.env.XDEBUG_MCP_SKIP_GLOBS.split(',').map((g) => g.trim()).filter(Boolean);
+  }
+  if (process.env.XDEBUG_MCP_APP_DIRS) {
+    envConfig.appDirs = process.env.XDEBUG_MCP_APP_DIRS.split(',').map((d) => d.trim()).filter(Boolean);
+  }
+  if (process.env.XDEBUG_MCP_STRATEGIES) {
+    try {
+      envConfig.strategies = JSON.parse(process.env.XDEBUG_MCP_STRATEGIES);
+    } catch {
+      console.error('Invalid XDEBUG_MCP_STRATEGIES JSON, ignoring');
+    }
+  }
   if (process.env.DEBUG) {
     envConfig.debug = true;
   }
@@ -22,11 +22,32 @@ import {
   NotConnectedError,
   DbgpError,
 } from '../errors.js';
-import type { VariableInfo, StackFrame, PauseReason } from '../types/index.js';
+import type {
+  VariableInfo,
+  StackFrame,
+  PauseReason,
+  BreakpointInfo,
+  BreakpointType,
+  HitCondition,
+  TriggerResult,
+} from '../types/index.js';
 import { createLogger } from '../utils/logger.js';
 
 const logger = createLogger('dbgp');
 
+/** Pseudo-exception names XDebug uses for PHP errors */
+const PHP_ERROR_NAMES = new Set([
+  'Fatal error',
+  'Recoverable fatal error',
+  'Warning',
+  'Notice',
+  'Deprecated',
+  'Strict standards',
+]);
+
+/** Trigger output kept for detach results, in characters */
+const TRIGGER_OUTPUT_LIMIT = 65_536;
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -43,12 +64,23 @@ export interface DbgpConnectionConfig {
 
 /** Parameters for setting a breakpoint */
 export interface BreakpointParams {
-  type: 'line' | 'call' | 'return' | 'exception' | 'conditional';
+  type: 'line' | 'call' | 'return' | 'exception' | 'conditional' | 'watch';
   filename?: string;
   lineno?: number;
   function?: string;
+  class?: string;
   exception?: string;
   expression?: string;
+  state?: 'enabled' | 'disabled';
+  hitValue?: number;
+  hitCondition?: HitCondition;
+  temporary?: boolean;
+}
+
+/** Parameters for updating an existing breakpoint */
+export interface BreakpointUpdateParams {
+  state?: 'enabled' | 'disabled';
+  lineno?: number;
 }
 
 /** Data emitted on break event */
@@ -59,11 +91,57 @@ export interface BreakEventData {
   exception?: {
     name: string;
     message: string;
+    code?: string;
   };
 }
 
+/**
+ * Data from a <notify> packet (requires the notify_ok feature)
+ */
+export type NotifyEventData =
+  | {
+      name: 'error';
+      filename: string;
+      lineno: number;
+      /** Error level name (e.g. 'Warning') */
+      level: string;
+      message: string;
+    }
+  | {
+      name: 'breakpoint_resolved';
+      breakpoint: BreakpointInfo;
+    };
+
+/**
+ * Data from a <stream> packet (output copied by stdout/stderr redirection)
+ */
+export interface StreamEventData {
+  type: 'stdout' | 'stderr';
+  data: string;
+}
+
+/** Break message element; XDebug 3 sends it namespaced as xdebug:message */
+interface DbgpBreakMessage {
+  '@_filename': string;
+  '@_lineno': string;
+  '@_exception': string;
+  '@_code'?: string;
+  '#text'?: string;
+}
+
 // Internal XML parsing types
 interface ParsedResponse {
+  stream?: {
+    '@_type': string;
+    '@_encoding'?: string;
+    '#text'?: string;
+  };
+  notify?: {
+    '@_name': string;
+    'xdebug:message'?: DbgpNotifyMessage;
+    message?: DbgpNotifyMessage;
+    breakpoint?: DbgpBreakpoint;
+  };
   init?: {
     '@_fileuri': string;
     '@_language': string;
@@ -80,14 +158,16 @@ interface ParsedResponse {
     '@_id'?: string;
     '@_filename'?: string;
     '@_lineno'?: string;
-    message?: {
-      '@_filename': string;
-      '@_lineno': string;
-      '@_exception': string;
-      '#text'?: string;
-    };
+    '@_state'?: string;
+    '@_resolved'?: string;
+    '@_supported'?: string;
+    '#text'?: string | number;
+    message?: DbgpBreakMessage;
+    'xdebug:message'?: DbgpBreakMessage;
     property?: DbgpProperty | DbgpProperty[];
     stack?: DbgpStack | DbgpStack[];
+    breakpoint?: DbgpBreakpoint | DbgpBreakpoint[];
+    context?: { '@_id': string; '@_name': string } | Array<{ '@_id': string; '@_name': string }>;
     error?: {
       '@_code': string;
       message: string;
@@ -95,6 +175,14 @@ interface ParsedResponse {
   };
 }
 
+interface DbgpNotifyMessage {
+  '@_filename'?: string;
+  '@_lineno'?: string;
+  '@_type'?: string;
+  '@_type_string'?: string;
+  '#text'?: string;
+}
+
 interface DbgpProperty {
   '@_name': string;
   '@_fullname'?: string;
@@ -107,6 +195,22 @@ interface DbgpProperty {
   property?: DbgpProperty | DbgpProperty[];
 }
 
+interface DbgpBreakpoint {
+  '@_id': string;
+  '@_type': string;
+  '@_state': string;
+  '@_filename'?: string;
+  '@_lineno'?: string;
+  '@_function'?: string;
+  '@_exception'?: string;
+  '@_hit_count'?: string;
+  '@_hit_value'?: string;
+  '@_hit_condition'?: string;
+  '@_temporary'?: string;
+  '@_resolved'?: string;
+  expression?: string | { '#text'?: string; '@_encoding'?: string };
+}
+
 interface DbgpStack {
   '@_level': string;
   '@_type': string;
@@ -123,6 +227,8 @@ interface DbgpStack {
 export interface DbgpConnectionEvents {
   connected: () => void;
   break: (data: BreakEventData) => void;
+  notify: (data: NotifyEventData) => void;
+  stream: (data: StreamEventData) => void;
   error: (error: Error) => void;
   close: () => void;
 }
@@ -138,6 +244,8 @@ export class DbgpConnection extends EventEmitter {
   private server: Server | null = null;
   private socket: Socket | null = null;
   private triggerProcess: ChildProcess | null = null;
+  private triggerOutput = '';
+  private triggerExit: Promise<{ code: number | null; signal: string | null }> | null = null;
   private readonly xmlParser: XMLParser;
   private transactionId = 0;
   private readonly pendingCommands = new Map<
@@ -155,6 +263,8 @@ export class DbgpConnection extends EventEmitter {
   private connectionResolve: (() => void) | null = null;
   private breakResolve: (() => void) | null = null;
   private isClosing = false;
+  /** Last accepted values of setLimit features */
+  private readonly featureValues = new Map<string, string>();
 
   constructor(config: Partial<DbgpConnectionConfig> = {}) {
     super();
@@ -289,28 +399,72 @@ export class DbgpConnection extends EventEmitter {
       shell: true, // Use shell for better command parsing
     });
 
-    // Log output for debugging
+    // Keep output for detach results and log it for debugging
+    this.triggerOutput = '';
     this.triggerProcess.stdout?.on('data', (data: Buffer) => {
       logger.debug('Trigger stdout', { data: data.toString().slice(0, 500) });
+      this.appendTriggerOutput(data.toString());
     });
 
     this.triggerProcess.stderr?.on('data', (data: Buffer) => {
       logger.debug('Trigger stderr', { data: data.toString().slice(0, 500) });
+      this.appendTriggerOutput(data.toString());
     });
 
     this.triggerProcess.on('error', (error) => {
       logger.error('Trigger process error', { error });
     });
 
-    this.triggerProcess.on('exit', (code, signal) => {
-      logger.info('Trigger exited', { code, signal });
-      this.triggerProcess = null;
+    const triggerProcess = this.triggerProcess;
+    this.triggerExit = new Promise((resolve) => {
+      triggerProcess.on('exit', (code, signal) => {
+        logger.info('Trigger exited', { code, signal });
+        if (this.triggerProcess === triggerProcess) {
+          this.triggerProcess = null;
+        }
+        resolve({ code, signal });
+      });
     });
 
     // Unref to allow parent to exit independently
     this.triggerProcess.unref();
   }
 
+  /**
+   * Wait for the trigger command to exit
+   *
+   * @param timeout - How long to wait before reporting it as still running
+   * @returns null if no trigger was started
+   */
+  async waitForTriggerExit(timeout: number): Promise<TriggerResult | null> {
+    if (!this.triggerExit) {
+      return null;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const exit = await Promise.race([
+      this.triggerExit,
+      new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), timeout);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    return {
+      exitCode: exit?.code ?? null,
+      signal: exit?.signal ?? undefined,
+      output: this.triggerOutput,
+      completed: exit !== null,
+    };
+  }
+
+  private appendTriggerOutput(data: string): void {
+    this.triggerOutput += data;
+    if (this.triggerOutput.length > TRIGGER_OUTPUT_LIMIT) {
+      this.triggerOutput = this.triggerOutput.slice(-TRIGGER_OUTPUT_LIMIT);
+    }
+  }
+
   /**
    * Wait for execution to break (hit breakpoint or exception)
    */
@@ -374,6 +528,59 @@ export class DbgpConnection extends EventEmitter {
     return response.response?.['@_success'] === '1';
   }
 
+  /**
+   * Set max_depth/max_children, skipping the round trip when XDebug
+   * already has that value (they persist for the connection)
+   */
+  private async setLimit(name: 'max_depth' | 'max_children', value: string): Promise<void> {
+    if (this.featureValues.get(name) === value) return;
+    if (await this.setFeature(name, value)) {
+      this.featureValues.set(name, value);
+    }
+  }
+
+  /**
+   * Read a DBGp feature value
+   *
+   * @returns The value, or null if the engine doesn't support the feature
+   */
+  async getFeature(name: string): Promise<string | null> {
+    const response = await this.sendCommand('feature_get', `-n ${name}`);
+    if (response.response?.['@_supported'] === '0') {
+      return null;
+    }
+    return response.response?.['#text'] !== undefined ? String(response.response['#text']) : null;
+  }
+
+  /**
+   * Stop debugging and let the script run to completion
+   */
+  async detach(): Promise<void> {
+    await this.sendCommand('detach');
+  }
+
+  /**
+   * Interrupt a running script (requires supports_async)
+   *
+   * The pending continuation command then completes with status "break".
+   */
+  async breakExecution(): Promise<void> {
+    await this.sendCommand('break');
+  }
+
+  /**
+   * Redirect script output to the debugger
+   *
+   * @param stream - Which stream to redirect
+   * @param mode - 0 disable, 1 copy (output still goes to its normal
+   *   destination), 2 redirect
+   * @returns Whether XDebug accepted the redirection
+   */
+  async redirectOutput(stream: 'stdout' | 'stderr', mode: 0 | 1 | 2 = 1): Promise<boolean> {
+    const response = await this.sendCommand(stream, `-c ${mode}`);
+    return response.response?.['@_success'] === '1';
+  }
+
   /**
    * Configure breaking on exceptions
    */
@@ -400,9 +607,24 @@ export class DbgpConnection extends EventEmitter {
     if (params.function) {
       args += ` -m ${params.function}`;
     }
+    if (params.class) {
+      args += ` -a ${params.class}`;
+    }
     if (params.exception) {
       args += ` -x ${params.exception}`;
     }
+    if (params.state) {
+      args += ` -s ${params.state}`;
+    }
+    if (params.hitValue !== undefined) {
+      args += ` -h ${params.hitValue}`;
+      if (params.hitCondition) {
+        args += ` -o ${params.hitCondition}`;
+      }
+    }
+    if (params.temporary) {
+      args += ' -r 1';
+    }
     if (params.expression) {
       const encoded = Buffer.from(params.expression).toString('base64');
       args += ` -- ${encoded}`;
@@ -428,6 +650,51 @@ export class DbgpConnection extends EventEmitter {
     await this.sendCommand('breakpoint_remove', `-d ${id}`);
   }
 
+  /**
+   * List all breakpoints registered with XDebug
+   */
+  async listBreakpoints(): Promise<BreakpointInfo[]> {
+    const response = await this.sendCommand('breakpoint_list');
+    const breakpoint = response.response?.breakpoint;
+
+    if (!breakpoint) {
+      return [];
+    }
+
+    const breakpoints = Array.isArray(breakpoint) ? breakpoint : [breakpoint];
+    return breakpoints.map((bp) => this.parseBreakpoint(bp));
+  }
+
+  /**
+   * Get a single breakpoint's state from XDebug
+   */
+  async getBreakpoint(id: number): Promise<BreakpointInfo | null> {
+    const response = await this.sendCommand('breakpoint_get', `-d ${id}`);
+    const breakpoint = response.response?.breakpoint;
+
+    if (!breakpoint) {
+      return null;
+    }
+
+    return this.parseBreakpoint(Array.isArray(breakpoint) ? breakpoint[0]! : breakpoint);
+  }
+
+  /**
+   * Update an existing breakpoint (state, line)
+   */
+  async updateBreakpoint(id: number, params: BreakpointUpdateParams): Promise<void> {
+    let args = `-d ${id}`;
+
+    if (params.state) {
+      args += ` -s ${params.state}`;
+    }
+    if (params.lineno !== undefined) {
+      args += ` -n ${params.lineno}`;
+    }
+
+    await this.sendCommand('breakpoint_update', args);
+  }
+
   /**
    * Continue execution until next breakpoint
    */
@@ -463,25 +730,27 @@ export class DbgpConnection extends EventEmitter {
    * @param maxDepth - Max recursion depth for nested properties (1-3)
    * @param maxChildren - Max children to return per property
    * @param stackDepth - Stack frame depth (0 = current frame)
+   * @param contextId - Context id (0 = local, 1 = superglobals, 2 = constants)
    */
   async getProperty(
     name: string,
     maxDepth: number = 1,
     maxChildren: number = 20,
-    stackDepth: number = 0
+    stackDepth: number = 0,
+    contextId: number = 0
   ): Promise<VariableInfo | null> {
     try {
       // Set max_depth and max_children features before fetching
       // These affect how much data XDebug returns for nested properties
-      await this.setFeature('max_depth', String(maxDepth));
-      await this.setFeature('max_children', String(maxChildren));
+      await this.setLimit('max_depth', String(maxDepth));
+      await this.setLimit('max_children', String(maxChildren));
 
       // property_get -n name -d stack_depth -c context_id
       // -d: Stack depth (0 = current frame)
-      // -c: Context id (0 = local, 1 = superglobals)
+      // -c: Context id (0 = local, 1 = superglobals, 2 = constants)
       const response = await this.sendCommand(
         'property_get',
-        `-n ${name} -d ${stackDepth} -c 0`
+        `-n ${name} -d ${stackDepth} -c ${contextId}`
       );
 
       if (response.response?.error) {
@@ -510,16 +779,75 @@ export class DbgpConnection extends EventEmitter {
     }
   }
 
+  /**
+   * Set a variable/property value
+   *
+   * @param name - Variable fullname (e.g., '$discount', '$order->status', '$items[0]')
+   * @param value - New value; a PHP expression unless a type is given
+   * @param type - Optional PHP type to set the value as (bool, int, float, string)
+   * @param stackDepth - Stack frame depth (0 = current frame)
+   * @returns Whether XDebug accepted the new value
+   */
+  async setProperty(
+    name: string,
+    value: string,
+    type?: string,
+    stackDepth: number = 0
+  ): Promise<boolean> {
+    const encoded = Buffer.from(value).toString('base64');
+    const typeArg = type ? ` -t ${type}` : '';
+
+    // property_set -n name -d stack_depth -c context_id [-t type] -l length -- data
+    const response = await this.sendCommand(
+      'property_set',
+      `-n ${name} -d ${stackDepth} -c 0${typeArg} -l ${Buffer.byteLength(value)} -- ${encoded}`
+    );
+
+    return response.response?.['@_success'] === '1';
+  }
+
+  /**
+   * Get the contexts available in a stack frame
+   *
+   * XDebug reports Locals (0), Superglobals (1) and User defined constants (2).
+   *
+   * @param stackDepth - Stack frame depth (0 = current frame)
+   */
+  async getContextNames(stackDepth: number = 0): Promise<Array<{ id: number; name: string }>> {
+    const response = await this.sendCommand('context_names', `-d ${stackDepth}`);
+    const context = response.response?.context;
+
+    if (!context) {
+      return [];
+    }
+
+    const contexts = Array.isArray(context) ? context : [context];
+    return contexts.map((c) => ({
+      id: parseInt(c['@_id'], 10),
+      name: c['@_name'],
+    }));
+  }
+
   /**
    * Get all context variables (local, global, etc.)
+   *
+   * @param contextId - Context id (0 = local, 1 = superglobals, 2 = constants)
+   * @param stackDepth - Stack frame depth (0 = current frame)
+   * @param maxDepth - Max recursion depth for nested properties
+   * @param maxChildren - Max children to return per property
    */
   async getContextVariables(
     contextId: number = 0,
-    depth: number = 1
+    stackDepth: number = 0,
+    maxDepth: number = 1,
+    maxChildren: number = 20
   ): Promise<VariableInfo[]> {
+    await this.setLimit('max_depth', String(maxDepth));
+    await this.setLimit('max_children', String(maxChildren));
+
     const response = await this.sendCommand(
       'context_get',
-      `-c ${contextId} -d ${depth}`
+      `-c ${contextId} -d ${stackDepth}`
     );
 
     const property = response.response?.property;
@@ -555,8 +883,23 @@ export class DbgpConnection extends EventEmitter {
 
   /**
    * Evaluate a PHP expression
+   *
+   * @param expression - PHP expression to evaluate
+   * @param maxDepth - Max recursion depth for nested properties of the result
+   * @param maxChildren - Max children to return per property
    */
-  async evaluate(expression: string): Promise<VariableInfo | null> {
+  async evaluate(
+    expression: string,
+    maxDepth?: number,
+    maxChildren?: number
+  ): Promise<VariableInfo | null> {
+    if (maxDepth !== undefined) {
+      await this.setLimit('max_depth', String(maxDepth));
+    }
+    if (maxChildren !== undefined) {
+      await this.setLimit('max_children', String(maxChildren));
+    }
+
     const encoded = Buffer.from(expression).toString('base64');
     const response = await this.sendCommand('eval', `-- ${encoded}`);
 
@@ -577,8 +920,10 @@ export class DbgpConnection extends EventEmitter {
 
   /**
    * Close the connection and clean up
+   *
+   * @param killTrigger - Terminate the trigger command if still running
    */
-  close(): void {
+  close(killTrigger: boolean = true): void {
     if (this.isClosing) {
       return;
     }
@@ -586,8 +931,8 @@ export class DbgpConnection extends EventEmitter {
 
     logger.info('Closing connection');
 
-    // Kill trigger process
-    if (this.triggerProcess) {
+    // Kill trigger process (unless it should finish on its own, after detach)
+    if (this.triggerProcess && killTrigger) {
       try {
         this.triggerProcess.kill('SIGTERM');
       } catch {
@@ -727,6 +1072,16 @@ export class DbgpConnection extends EventEmitter {
       if (parsed.response) {
         this.handleResponse(parsed);
       }
+
+      // Handle asynchronous notifications
+      if (parsed.notify) {
+        this.handleNotify(parsed);
+      }
+
+      // Handle redirected output
+      if (parsed.stream) {
+        this.handleStream(parsed);
+      }
     } catch (err) {
       logger.error('XML parse error', {
         error: err,
@@ -739,13 +1094,22 @@ export class DbgpConnection extends EventEmitter {
     const response = parsed.response!;
     const transactionId = response['@_transaction_id'];
 
-    // Check for break status
-    if (response['@_status'] === 'break') {
-      const reason = this.mapReason(response['@_reason']);
+    // Check for break status. The reply to an async 'break' command
+    // can carry it too; the interrupted run/step reply is the real pause.
+    if (response['@_status'] === 'break' && response['@_command'] !== 'break') {
+      const message = response['xdebug:message'] ?? response.message;
+
+      // XDebug 3 reports exception breaks with reason "ok"; the message
+      // element's exception attribute is what identifies them. PHP errors
+      // arrive the same way under pseudo-exception names like "Warning".
+      const exceptionName = message?.['@_exception'];
+      const reason: PauseReason = exceptionName
+        ? PHP_ERROR_NAMES.has(exceptionName) ? 'php_error' : 'exception'
+        : this.mapReason(response['@_reason']);
       const filename =
-        response['@_filename'] ?? response.message?.['@_filename'] ?? '';
+        response['@_filename'] ?? message?.['@_filename'] ?? '';
       const lineno = parseInt(
-        response['@_lineno'] ?? response.message?.['@_lineno'] ?? '0',
+        response['@_lineno'] ?? message?.['@_lineno'] ?? '0',
         10
       );
 
@@ -753,10 +1117,11 @@ export class DbgpConnection extends EventEmitter {
         filename: this.decodeFileUri(filename),
         lineno,
         reason,
-        exception: response.message
+        exception: message?.['@_exception']
           ? {
-              name: response.message['@_exception'],
-              message: response.message['#text'] ?? '',
+              name: message['@_exception'],
+              message: String(message['#text'] ?? ''),
+              code: message['@_code'],
             }
           : undefined,
       };
@@ -791,6 +1156,46 @@ export class DbgpConnection extends EventEmitter {
     }
   }
 
+  private handleNotify(parsed: ParsedResponse): void {
+    const notify = parsed.notify!;
+
+    switch (notify['@_name']) {
+      case 'error': {
+        const message = notify['xdebug:message'] ?? notify.message;
+        this.emit('notify', {
+          name: 'error',
+          filename: this.decodeFileUri(message?.['@_filename'] ?? ''),
+          lineno: parseInt(message?.['@_lineno'] ?? '0', 10),
+          level: message?.['@_type'] ?? message?.['@_type_string'] ?? 'Error',
+          message: String(message?.['#text'] ?? ''),
+        });
+        break;
+      }
+      case 'breakpoint_resolved':
+        if (notify.breakpoint) {
+          this.emit('notify', {
+            name: 'breakpoint_resolved',
+            breakpoint: this.parseBreakpoint(notify.breakpoint),
+          });
+        }
+        break;
+      default:
+        logger.debug('Ignoring notification', { name: notify['@_name'] });
+    }
+  }
+
+  private handleStream(parsed: ParsedResponse): void {
+    const stream = parsed.stream!;
+    const text = String(stream['#text'] ?? '');
+
+    this.emit('stream', {
+      type: stream['@_type'] === 'stderr' ? 'stderr' : 'stdout',
+      data: stream['@_encoding'] === 'base64'
+        ? Buffer.from(text, 'base64').toString('utf-8')
+        : text,
+    });
+  }
+
   private mapReason(reason?: string): PauseReason {
     switch (reason) {
       case 'ok':
@@ -817,6 +1222,38 @@ export class DbgpConnection extends EventEmitter {
     return uri;
   }
 
+  private parseBreakpoint(bp: DbgpBreakpoint): BreakpointInfo {
+    const info: BreakpointInfo = {
+      id: parseInt(bp['@_id'], 10),
+      type: bp['@_type'] as BreakpointType,
+      state: bp['@_state'] === 'disabled' ? 'disabled' : 'enabled',
+      filename: bp['@_filename'] ? this.decodeFileUri(bp['@_filename']) : undefined,
+      lineno: bp['@_lineno'] ? parseInt(bp['@_lineno'], 10) : undefined,
+      function: bp['@_function'],
+      exception: bp['@_exception'],
+      hitCount: parseInt(bp['@_hit_count'] ?? '0', 10),
+      hitValue: bp['@_hit_value'] ? parseInt(bp['@_hit_value'], 10) : undefined,
+      hitCondition: bp['@_hit_condition'] as HitCondition | undefined,
+      temporary: bp['@_temporary'] ? bp['@_temporary'] === '1' : undefined,
+      // Only reported once the resolved_breakpoints feature is on
+      resolved: bp['@_resolved'] ? bp['@_resolved'] === 'resolved' : undefined,
+    };
+
+    // Conditional expressions are returned as a (usually base64) child element
+    if (bp.expression !== undefined) {
+      if (typeof bp.expression === 'object') {
+        const text = String(bp.expression['#text'] ?? '');
+        info.expression = bp.expression['@_encoding'] === 'base64'
+          ? Buffer.from(text, 'base64').toString('utf-8')
+          : text;
+      } else {
+        info.expression = String(bp.expression);
+      }
+    }
+
+    return info;
+  }
+
   private parseProperty(prop: DbgpProperty): VariableInfo {
     const info: VariableInfo = {
       name: prop['@_name'],
@@ -828,8 +1265,8 @@ export class DbgpConnection extends EventEmitter {
         : undefined,
     };
 
-    // Decode value based on encoding
-    if (prop['#text']) {
+    // Decode value based on encoding; the parser turns "0" into 0
+    if (prop['#text'] !== undefined && prop['#text'] !== '') {
       const encoding = prop['@_encoding'];
       if (encoding === 'base64') {
         try {
@@ -0,0 +1,106 @@
+/**
+ * Exception Details
+ *
+ * Reads the thrown exception at an exception break. XDebug exposes it as
+ * the virtual property $__EXCEPTION, which property_get can read but eval
+ * can't see, so the object's properties are walked instead of calling
+ * getMessage()/getPrevious().
+ *
+ * @packageDocumentation
+ * @module debug/exception-details
+ *
+ * Copyright 2026 Tyler Wall
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ExceptionCause, VariableInfo } from '../types/index.js';
+import type { DbgpConnection } from './dbgp-connection.js';
+
+/** Trace frames read for the thrown exception */
+const MAX_TRACE_FRAMES = 20;
+
+/** getPrevious() links followed */
+const MAX_PREVIOUS = 9;
+
+/**
+ * The thrown exception as read from XDebug (remote paths)
+ */
+export interface ThrownException extends ExceptionCause {
+  file?: string;
+  line?: number;
+  /** getPrevious() chain, outermost first */
+  previous: ExceptionCause[];
+  /** Innermost frame first */
+  trace: Array<{ file?: string; line?: number; function: string }>;
+}
+
+/**
+ * Read $__EXCEPTION and its previous chain
+ *
+ * @returns null when the break has no exception object (e.g. PHP errors)
+ */
+export async function readThrownException(
+  connection: DbgpConnection
+): Promise<ThrownException | null> {
+  // Depth 3 reaches the fields of each trace frame
+  const thrown = await connection.getProperty('$__EXCEPTION', 3, MAX_TRACE_FRAMES);
+  if (thrown?.type !== 'object') {
+    return null;
+  }
+
+  const previous: ExceptionCause[] = [];
+  let link = field(thrown, 'previous');
+  while (link?.type === 'object' && previous.length < MAX_PREVIOUS) {
+    // Links beyond the fetched depth are listed without their properties
+    if (!link.children?.length && link.fullname) {
+      link = (await connection.getProperty(link.fullname, 1, MAX_TRACE_FRAMES)) ?? link;
+    }
+    previous.push(exceptionCause(link));
+    link = field(link, 'previous');
+  }
+
+  return {
+    ...exceptionCause(thrown),
+    file: stringField(thrown, 'file'),
+    line: numberField(thrown, 'line'),
+    previous,
+    trace: (field(thrown, 'trace')?.children ?? []).map((frame) => {
+      const cls = stringField(frame, 'class');
+      return {
+        file: stringField(frame, 'file'),
+        line: numberField(frame, 'line'),
+        function: `${cls ? `${cls}${stringField(frame, 'type') ?? '->'}` : ''}${stringField(frame, 'function') ?? '{main}'}`,
+      };
+    }),
+  };
+}
+
+/**
+ * Class, message and code of an exception object
+ */
+export function exceptionCause(exception: VariableInfo): ExceptionCause {
+  const code = field(exception, 'code')?.value;
+  return {
+    class: exception.classname ?? 'Exception',
+    message: stringField(exception, 'message') ?? '',
+    code: typeof code === 'number' || typeof code === 'string' ? code : undefined,
+  };
+}
+
+/**
+ * Find a property by name; private properties of parent classes may be
+ * named '*Exception*previous'
+ */
+function field(variable: VariableInfo, name: string): VariableInfo | undefined {
+  return variable.children?.find((c) => c.name.replace(/^\*[^*]+\*/, '') === name);
+}
+
+function stringField(variable: VariableInfo, name: string): string | undefined {
+  const value = field(variable, name)?.value;
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+function numberField(variable: VariableInfo, name: string): number | undefined {
+  const value = field(variable, name)?.value;
+  return typeof value === 'number' ? value : undefined;
+}
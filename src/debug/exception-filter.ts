@@ -0,0 +1,63 @@
+/**
+ * Exception Filter
+ *
+ * Decides whether an exception (or PHP error) pause is continued past per
+ * the session's exception_exclude and skip_vendor_exceptions settings.
+ *
+ * @packageDocumentation
+ * @module debug/exception-filter
+ *
+ * Copyright 2026 Tyler Wall
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ExceptionFilter } from '../types/index.js';
+
+/**
+ * What is known about a thrown exception when deciding
+ */
+export interface ThrownClass {
+  /** Class (or PHP error level) reported by XDebug */
+  name: string;
+  /** Parent classes and interfaces, fully-qualified */
+  ancestors: string[];
+  /** Whether the throwing frame is in a skipped (vendor) file */
+  inSkippedFile: boolean;
+  /** Whether a breakpoint the user set with type 'exception' matches it */
+  explicitBreakpoint: boolean;
+}
+
+/**
+ * Match a class name against a fully-qualified or short class name
+ */
+export function matchesClass(name: string, pattern: string): boolean {
+  const fqcn = name.replace(/^\\/, '');
+  const target = pattern.replace(/^\\/, '');
+  return fqcn === target || fqcn.endsWith(`\\${target}`);
+}
+
+/**
+ * PHP expression listing a class's parents and interfaces, comma-separated
+ */
+export function ancestryExpression(className: string): string {
+  const literal = `'${className.replace(/[\\']/g, '\\$&')}'`;
+  return `implode(',', array_merge(array_keys(class_parents(${literal}) ?: []), array_keys(class_implements(${literal}) ?: [])))`;
+}
+
+/**
+ * Whether the pause should be continued past
+ *
+ * Excludes match subclasses, like exception_include does in XDebug.
+ * Vendor skipping only applies to pauses from stop_on_exception, never to
+ * exception breakpoints the user set.
+ */
+export function isFilteredException(thrown: ThrownClass, filter: ExceptionFilter): boolean {
+  const { exclude = [], skipVendor = false } = filter;
+  const classes = [thrown.name, ...thrown.ancestors];
+
+  if (classes.some((name) => exclude.some((pattern) => matchesClass(name, pattern)))) {
+    return true;
+  }
+
+  return skipVendor && thrown.inSkippedFile && !thrown.explicitBreakpoint;
+}
@@ -0,0 +1,87 @@
+/**
+ * Expression Guard
+ *
+ * Heuristic check for PHP expressions that look side-effecting, so that
+ * evaluating an expression while paused doesn't silently change state
+ * (assignments, exit, filesystem or database writes).
+ *
+ * @packageDocumentation
+ * @module debug/expression-guard
+ *
+ * Copyright 2026 Tyler Wall
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Patterns checked against the expression with string literals removed */
+const SIDE_EFFECT_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /(?<![=!<>])=(?![=>])/, reason: 'assignment' },
+  { pattern: /\+\+|--/, reason: 'increment/decrement' },
+  { pattern: /\b(exit|die)\b/i, reason: 'terminates the script' },
+  { pattern: /`/, reason: 'shell execution' },
+  {
+    // Functions, not methods of the same name ($pdo->exec)
+    pattern: /(?<!(->|::)\s*)\b(system|exec|shell_exec|passthru|popen|proc_open|pcntl_exec)\s*\(/i,
+    reason: 'executes a process',
+  },
+  {
+    // Functions only: $now->copy() clones a date
+    pattern:
+      /(?<!(->|::)\s*)\b(unlink|rmdir|mkdir|rename|copy|touch|chmod|chown|file_put_contents|fwrite|fputs|ftruncate|move_uploaded_file)\s*\(/i,
+    reason: 'writes to the filesystem',
+  },
+  {
+    // Functions only: $request->header('Authorization') reads a header
+    pattern: /(?<!(->|::)\s*)\b(mail|header|setcookie|session_destroy|session_regenerate_id)\s*\(/i,
+    reason: 'sends output or mutates the request',
+  },
+  { pattern: /\b(eval|include|include_once|require|require_once)\b/i, reason: 'loads or evaluates code' },
+  {
+    pattern:
+      /(->|::)\s*(save|saveQuietly|update|updateOrCreate|firstOrCreate|insert|insertGetId|upsert|delete|forceDelete|destroy|truncate|increment|decrement|sync|attach|detach|touch|restore)\s*\(/i,
+    reason: 'writes to the database',
+  },
+  // Static create() is also a plain factory (Carbon::create), and push()
+  // with arguments appends to a collection; Eloquent's push() saves
+  { pattern: /->\s*create\s*\(|->\s*push\s*\(\s*\)/i, reason: 'writes to the database' },
+  {
+    pattern: /\bDB\s*::\s*(statement|unprepared|insert|update|delete|beginTransaction|commit|rollBack)\s*\(/i,
+    reason: 'writes to the database',
+  },
+  {
+    // exec/query only on connection-like receivers: $request->query() reads input
+    pattern:
+      /(\$(this->)?(pdo|db|dbh|mysqli|conn|connection)\w*|getPdo\(\s*\))\s*->\s*(exec|query|multi_query|real_query)\s*\(/i,
+    reason: 'runs a raw database statement',
+  },
+  {
+    pattern: /->\s*(beginTransaction|commit|rollBack)\s*\(/i,
+    reason: 'runs a raw database statement',
+  },
+];
+
+/**
+ * Check whether a PHP expression looks side-effecting
+ *
+ * @param expression - PHP expression to check
+ * @returns The reason it looks side-effecting, or null if it looks safe
+ */
+export function detectSideEffect(expression: string): string | null {
+  const code = stripStringLiterals(expression);
+
+  for (const { pattern, reason } of SIDE_EFFECT_PATTERNS) {
+    if (pattern.test(code)) {
+      return reason;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Replace the contents of quoted strings so operators inside them are ignored
+ */
+function stripStringLiterals(expression: string): string {
+  return expression
+    .replace(/'(?:[^'\\]|\\.)*'/g, "''")
+    .replace(/"(?:[^"\\]|\\.)*"/g, '""');
+}
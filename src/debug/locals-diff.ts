@@ -0,0 +1,68 @@
+/**
+ * Locals Diff
+ *
+ * Compares two context_get results for the same frame so pause responses
+ * can say what a step changed.
+ *
+ * @packageDocumentation
+ * @module debug/locals-diff
+ *
+ * Copyright 2026 Tyler Wall
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { VariableChange, VariableInfo } from '../types/index.js';
+import { formatLogValue } from './log-template.js';
+
+/**
+ * List locals added, removed or modified between two pauses
+ *
+ * Arrays and objects count as modified when any captured child differs;
+ * their old/new values are shown compactly (e.g. array(3) → array(4)).
+ */
+export function diffVariables(
+  previous: VariableInfo[],
+  current: VariableInfo[]
+): VariableChange[] {
+  const before = new Map(previous.map((v) => [v.name, v]));
+  const after = new Map(current.map((v) => [v.name, v]));
+  const changes: VariableChange[] = [];
+
+  // XDebug lists declared-but-unset locals as 'uninitialized'; treat them as absent
+  const isSet = (v?: VariableInfo): v is VariableInfo =>
+    v !== undefined && v.type !== 'uninitialized';
+
+  for (const [name, variable] of after) {
+    const old = before.get(name);
+    if (!isSet(variable)) continue;
+
+    if (!isSet(old)) {
+      changes.push({ name, change: 'added', newValue: formatLogValue(variable) });
+    } else if (fingerprint(old) !== fingerprint(variable)) {
+      changes.push({
+        name,
+        change: 'modified',
+        oldValue: formatLogValue(old),
+        newValue: formatLogValue(variable),
+      });
+    }
+  }
+
+  for (const [name, variable] of before) {
+    if (isSet(variable) && !isSet(after.get(name))) {
+      changes.push({ name, change: 'removed', oldValue: formatLogValue(variable) });
+    }
+  }
+
+  return changes;
+}
+
+function fingerprint(variable: VariableInfo): string {
+  return JSON.stringify([
+    variable.type,
+    variable.classname,
+    variable.value,
+    variable.numchildren,
+    variable.children?.map(fingerprint),
+  ]);
+}
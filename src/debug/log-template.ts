@@ -0,0 +1,92 @@
+/**
+ * Logpoint Message Templates
+ *
+ * Templates use PHP's complex string syntax for placeholders:
+ * "order {$order->id} total={$total}". Each placeholder is evaluated in
+ * the paused frame and the rendered message is logged.
+ *
+ * @packageDocumentation
+ * @module debug/log-template
+ *
+ * Copyright 2026 Tyler Wall
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { VariableInfo } from '../types/index.js';
+
+/** A parsed template: literal text and expressions to evaluate */
+export type TemplatePart = string | { expression: string };
+
+/**
+ * Split a template into literal text and `{$...}` expressions
+ *
+ * Braces inside an expression are balanced, so `{$map['{a}']}` works.
+ * An unterminated placeholder is kept as literal text.
+ */
+export function parseLogTemplate(template: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let literal = '';
+  let i = 0;
+
+  while (i < template.length) {
+    if (template[i] === '{' && template[i + 1] === '$') {
+      const end = findClosingBrace(template, i);
+      if (end !== -1) {
+        if (literal) parts.push(literal);
+        literal = '';
+        parts.push({ expression: template.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+    literal += template[i];
+    i++;
+  }
+
+  if (literal) parts.push(literal);
+  return parts;
+}
+
+/**
+ * Expressions referenced by a template
+ */
+export function templateExpressions(template: string): string[] {
+  return parseLogTemplate(template)
+    .filter((part): part is { expression: string } => typeof part !== 'string')
+    .map((part) => part.expression);
+}
+
+/**
+ * Format an evaluated value the way it should appear in a log line
+ */
+export function formatLogValue(value: VariableInfo | null): string {
+  if (!value) return 'null';
+
+  switch (value.type) {
+    case 'null':
+    case 'uninitialized':
+      return 'null';
+    case 'bool':
+      return value.value === '1' || value.value === 'true' || value.value === true
+        ? 'true'
+        : 'false';
+    case 'array':
+      return `array(${value.numchildren ?? 0})`;
+    case 'object':
+      return `${value.classname ?? 'object'}{}`;
+    default:
+      return String(value.value ?? '');
+  }
+}
+
+function findClosingBrace(template: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < template.length; i++) {
+    if (template[i] === '{') depth++;
+    if (template[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,45 @@
+/**
+ * Output Buffer
+ *
+ * Keeps the most recent script output from DBGp stream packets, dropping
+ * the oldest characters once the buffer is full.
+ *
+ * @packageDocumentation
+ * @module debug/output-buffer
+ *
+ * Copyright 2026 Tyler Wall
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ScriptOutput } from '../types/index.js';
+
+export class OutputBuffer {
+  private text = '';
+  private received = 0;
+
+  /**
+   * @param limit - Characters kept (UTF-16 code units, as String.length counts)
+   */
+  constructor(private readonly limit: number) {}
+
+  append(data: string): void {
+    this.received += data.length;
+    this.text += data;
+    if (this.text.length > this.limit) {
+      this.text = this.text.slice(-this.limit);
+    }
+  }
+
+  /**
+   * @param tail - Return only the last N characters
+   */
+  read(tail?: number): ScriptOutput {
+    return {
+      output: tail !== undefined
+        ? this.text.slice(Math.max(0, this.text.length - tail))
+        : this.text,
+      totalLength: this.received,
+      truncated: this.received > this.text.length,
+    };
+  }
+}
@@ -14,7 +14,7 @@
 
 import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
-import { join, resolve, normalize, sep } from 'path';
+import { join, resolve, relative, isAbsolute, normalize, sep } from 'path';
 import type { PathMapping } from '../types/index.js';
 import { createLogger } from '../utils/logger.js';
 import { getConfig } from '../config.js';
@@ -183,6 +183,17 @@ export class PathMapper {
     return localPath;
   }
 
+  /**
+   * Local path relative to the project root, or undefined outside it
+   */
+  toProjectRelative(localPath: string): string | undefined {
+    const rel = relative(this.projectRoot, resolve(this.projectRoot, localPath));
+    if (!rel || rel.startsWith('..') || isAbsolute(rel)) {
+      return undefined;
+    }
+    return rel.replace(/\\/g, '/');
+  }
+
   /**
    * Get current mappings
    */
@@ -19,25 +19,77 @@ import {
   NoActiveSessionError,
   SessionAlreadyActiveError,
   SessionNotPausedError,
+  AsyncBreakUnsupportedError,
   SessionStoppedError,
   NotConnectedError,
+  BreakpointNotFoundError,
+  VariableSetError,
+  ValidationError,
+  UnsafeExpressionError,
 } from '../errors.js';
 import type {
   SessionState,
   SessionStatus,
   BreakpointConfig,
+  BreakpointEntry,
+  BreakpointInfo,
+  BreakpointRef,
   DebugLocation,
   DebugSessionConfig,
   ExecutionAction,
+  ExceptionFilter,
+  ExceptionInfo,
+  ExecutionOptions,
+  LogEntry,
+  StepUntilResult,
+  PauseReason,
+  ScriptOutput,
+  SessionEvent,
+  StackTraceFrame,
+  VariableContext,
   VariableInfo,
+  WatchValue,
 } from '../types/index.js';
-import { DbgpConnection, BreakEventData } from './dbgp-connection.js';
+import {
+  DbgpConnection,
+  BreakEventData,
+  BreakpointParams,
+  NotifyEventData,
+  StreamEventData,
+} from './dbgp-connection.js';
 import { PathMapper } from './path-mapper.js';
 import { SessionRecorder } from './session-recorder.js';
+import { detectSideEffect } from './expression-guard.js';
+import { formatLogValue, parseLogTemplate, templateExpressions } from './log-template.js';
+import { diffVariables } from './locals-diff.js';
+import { OutputBuffer } from './output-buffer.js';
+import { matchesSkipGlob } from './skip-globs.js';
+import { applyStrategy } from './strategies.js';
+import { readThrownException } from './exception-details.js';
+import { ancestryExpression, isFilteredException, matchesClass } from './exception-filter.js';
+import { canUseCallBreakpoint, matchesFunction, nextTargetStep } from './step-target.js';
+import type { StepPosition } from './step-target.js';
+import { resumeCommand } from './step-resume.js';
+import type { IssuedStep } from './step-resume.js';
 import { createLogger } from '../utils/logger.js';
 
 const logger = createLogger('session-manager');
 
+/** Steps taken by step_until when no budget is given */
+const DEFAULT_STEP_UNTIL_BUDGET = 50;
+
+/** Logpoint messages kept in memory; the recorder keeps all of them */
+const MAX_LOG_ENTRIES = 1000;
+
+/** Notification events kept in memory; the recorder keeps all PHP errors */
+const MAX_SESSION_EVENTS = 1000;
+
+/** Steps step_into_target takes looking for its callee on the line */
+const MAX_TARGET_STEPS = 50;
+
+/** Pauses in skipped files stepped past per action before just-my-code gives up */
+const MAX_SKIPPED_FRAMES = 1000;
+
 /**
  * Manages debug sessions and coordinates all debugging operations
  */
@@ -49,6 +101,50 @@ export class DebugSessionManager {
   private watchdogTimer: NodeJS.Timeout | null = null;
   private stepCount = 0;
   private isShuttingDown = false;
+  private lastResumeCommand: string | null = null;
+  private pendingBreak: Promise<void> | null = null;
+  /** Temporary breakpoint placed by run_to_line (never in session.breakpoints) */
+  private runToLineTarget: { id: number; file: string; line: number } | null = null;
+  private lastStepUntil: StepUntilResult | null = null;
+  /** Engine accepts commands (like break) while the script runs */
+  private supportsAsync = false;
+  /** Engine exposes $__RETURN_VALUE after step_out (XDebug 3.3+) */
+  private supportsReturnValue = false;
+  /** A pause action is waiting for the script to break */
+  private breakRequested = false;
+  /** Record all locals at every pause (per session) */
+  private autoSnapshot = false;
+  /** Idle time before the watchdog ends the session (per session) */
+  private watchdogTimeout?: number;
+  /** A multi-step action is running; its pauses are snapshotted but not diffed */
+  private passingOver = false;
+  /** Stack depth at the last pause (1 = main script) */
+  private stackDepth = 0;
+  /** Step past frames matching the skip globs (per session) */
+  private justMyCode = false;
+  /** Frames stepped past by just-my-code during the current action */
+  private skippedFrames = 0;
+  /** Stack depth where the current action started */
+  private stepOriginDepth = 0;
+  /** The last run/step command issued, as opposed to the ones resuming it */
+  private issuedStep: IssuedStep = { command: 'run', depth: 0 };
+  /** Stepping back to issuedStep's frame after a filtered exception */
+  private resumingStep = false;
+  /** Entry mode 'app_code' is still stepping towards application code */
+  private seekingAppCode = false;
+  private entrySteps = 0;
+  /** Exceptions to continue past (per session) */
+  private exceptionFilter: ExceptionFilter = {};
+  /** Script output for the current session (capped at outputBufferSize) */
+  private output = new OutputBuffer(getConfig().outputBufferSize);
+  /** Notifications received during the current session */
+  private sessionEvents: SessionEvent[] = [];
+  /** Locals at the last pause per frame ("depth:function"), for step diffs */
+  private frameLocals = new Map<string, VariableInfo[]>();
+  /** Expressions evaluated at every pause; kept across sessions */
+  private watches: string[] = [];
+  /** Logpoint output for the current session (most recent MAX_LOG_ENTRIES) */
+  private logEntries: LogEntry[] = [];
 
   private mappingsLoaded = false;
 
@@ -93,6 +189,9 @@ export class DebugSessionManager {
       throw new SessionAlreadyActiveError();
     }
 
+    // Settings left unset come from the strategy preset
+    config = applyStrategy(config);
+
     const sessionId = randomUUID();
     logger.info('Starting session', { sessionId, command: config.command });
 
@@ -108,6 +207,18 @@ export class DebugSessionManager {
       lastActivityAt: new Date(),
     };
     this.stepCount = 0;
+    this.logEntries = [];
+    this.sessionEvents = [];
+    this.output = new OutputBuffer(getConfig().outputBufferSize);
+    this.frameLocals.clear();
+    this.autoSnapshot = config.autoSnapshot ?? getConfig().autoSnapshot;
+    this.exceptionFilter = config.exceptionFilter ?? {};
+    this.justMyCode = config.justMyCode ?? false;
+    this.watchdogTimeout = config.watchdogTimeout;
+    this.skippedFrames = 0;
+    this.stepOriginDepth = 0;
+    this.resumingStep = false;
+    this.runToLineTarget = null;
 
     try {
       // Load path mappings
@@ -141,30 +252,55 @@ export class DebugSessionManager {
       await this.connection.waitForConnection(timeout);
       this.updateStatus('connected');
 
+      this.supportsAsync =
+        (await this.connection.getFeature('supports_async').catch(() => null)) === '1';
+      this.supportsReturnValue = await this.connection
+        .setFeature('breakpoint_include_return_value', '1')
+        .catch(() => false);
+
+      // Ask XDebug to report errors as they happen, and to report (and
+      // mark) breakpoint resolution; both must be on before breakpoints
+      // are set, and versions without them reject the feature
+      await this.connection.setFeature('notify_ok', '1').catch(() => false);
+      await this.connection.setFeature('resolved_breakpoints', '1').catch(() => false);
+
+      // Copy script output to us without taking it away from its normal
+      // destination; XDebug doesn't implement stderr redirection everywhere
+      for (const stream of ['stdout', 'stderr'] as const) {
+        await this.connection.redirectOutput(stream, 1).catch(() => false);
+      }
+
       // Now that we're connected, set breakpoints
       await this.setAllBreakpoints();
 
-      // Configure stop-on behaviors
-      if (config.stopOnException) {
+      // Configure stop-on behaviors; an include list replaces the catch-all
+      const include = config.exceptionFilter?.include ?? [];
+      if (include.length > 0) {
+        for (const exception of include) {
+          await this.connection.breakOnException(exception);
+        }
+      } else if (config.stopOnException) {
         await this.connection.breakOnException('*');
       }
 
+      // PHP errors are pseudo-exceptions named after their level
+      for (const level of config.errorLevels ?? []) {
+        await this.connection.breakOnException(level);
+      }
+
       // Start watchdog timer
       this.startWatchdog();
 
-      // If stop_on_entry, step into first line; otherwise run until breakpoint
-      if (config.stopOnEntry) {
-        await this.connection.stepInto();
-      } else {
-        await this.connection.run();
-      }
-
-      // Wait for break event (breakpoint hit, step complete, or exception)
-      this.updateStatus('running');
+      // If stop_on_entry, step into first line (or the first line of
+      // application code); otherwise run until breakpoint
       try {
-        await this.connection.waitForBreak(5000);
+        if (config.stopOnEntry && config.entryMode === 'app_code') {
+          await this.stepToAppCode();
+        } else {
+          await this.resume(config.stopOnEntry ? 'step_into' : 'run');
+        }
       } catch {
-        // No break within timeout - execution may have completed
+        // No break within timeout - execution may still be running
         logger.debug('No break event within timeout');
       }
 
@@ -185,6 +321,14 @@ export class DebugSessionManager {
    * @returns The breakpoint config with ID if registered
    */
   async setBreakpoint(config: BreakpointConfig): Promise<BreakpointConfig> {
+    // Logpoints evaluate on every hit, so their placeholders must be safe
+    for (const expression of templateExpressions(config.logMessage ?? '')) {
+      const reason = detectSideEffect(expression);
+      if (reason) {
+        throw new UnsafeExpressionError(expression, reason);
+      }
+    }
+
     // Ensure path mappings are loaded before resolving paths
     await this.ensureMappingsLoaded();
 
@@ -199,14 +343,16 @@ export class DebugSessionManager {
       };
     }
 
-    const key = `${config.file}:${config.line}`;
+    const type = config.type ?? 'line';
+    const key = this.breakpointKey(config);
 
-    // Translate to remote path for storage
-    const remotePath = this.pathMapper.toRemote(config.file);
+    // Translate to remote path for storage (line breakpoints only)
+    const remotePath = config.file ? this.pathMapper.toRemote(config.file) : undefined;
     const storedConfig: BreakpointConfig = {
       ...config,
+      type,
       file: remotePath,
-      enabled: true,
+      enabled: config.enabled ?? true,
     };
 
     this.session.breakpoints.set(key, storedConfig);
@@ -214,27 +360,27 @@ export class DebugSessionManager {
     // If connected, set immediately
     if (this.connection?.isConnected()) {
       try {
-        const result = await this.connection.setBreakpoint({
-          type: 'line',
-          filename: remotePath,
-          lineno: config.line,
-          expression: config.condition,
-        });
+        const result = await this.connection.setBreakpoint(
+          this.toBreakpointParams(storedConfig)
+        );
         storedConfig.id = result.id;
       } catch (error) {
-        logger.warn('Failed to set breakpoint', { error, file: config.file, line: config.line });
+        logger.warn('Failed to set breakpoint', { error, key });
       }
     }
 
     logger.info('Breakpoint set', {
+      type,
       file: config.file,
       remotePath,
       line: config.line,
+      function: config.function,
+      exception: config.exception,
       condition: config.condition,
     });
 
     // Return both local file and resolved remote path
-    return { ...config, id: storedConfig.id, remotePath };
+    return { ...config, type, id: storedConfig.id, remotePath };
   }
 
   /**
@@ -260,6 +406,93 @@ export class DebugSessionManager {
     this.session.breakpoints.delete(key);
   }
 
+  /**
+   * List breakpoints, joined with XDebug's view when connected
+   *
+   * Breakpoints not yet registered with XDebug (pending session) are returned
+   * from session storage only. Engine-only breakpoints (e.g. the exception
+   * breakpoint from stop_on_exception) are returned without a stored config.
+   */
+  async listBreakpoints(): Promise<BreakpointEntry[]> {
+    if (!this.session) return [];
+
+    let engineBreakpoints: BreakpointInfo[] = [];
+    if (this.connection?.isConnected()) {
+      try {
+        engineBreakpoints = await this.connection.listBreakpoints();
+      } catch (error) {
+        logger.warn('Failed to list breakpoints', { error });
+      }
+    }
+
+    const byId = new Map(engineBreakpoints.map((info) => [info.id, info]));
+    const entries: BreakpointEntry[] = [];
+
+    for (const [key, config] of this.session.breakpoints) {
+      const info = config.id !== undefined ? byId.get(config.id) : undefined;
+      if (info) {
+        byId.delete(info.id);
+      }
+      entries.push({ key, config, info: info && this.toLocalBreakpointInfo(info) });
+    }
+
+    for (const info of byId.values()) {
+      entries.push({ info: this.toLocalBreakpointInfo(info) });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Get a single stored breakpoint, refreshed from XDebug when connected
+   *
+   * @throws {BreakpointNotFoundError} If no stored breakpoint matches
+   */
+  async getBreakpoint(ref: BreakpointRef): Promise<BreakpointEntry> {
+    const [key, config] = this.findBreakpoint(ref);
+
+    let info: BreakpointInfo | null = null;
+    if (config.id !== undefined && this.connection?.isConnected()) {
+      try {
+        info = await this.connection.getBreakpoint(config.id);
+      } catch (error) {
+        logger.warn('Failed to get breakpoint', { error, id: config.id });
+      }
+    }
+
+    return { key, config, info: info ? this.toLocalBreakpointInfo(info) : undefined };
+  }
+
+  /**
+   * Enable or disable a breakpoint without removing it
+   *
+   * The XDebug ID is preserved, so the breakpoint can be re-enabled later.
+   *
+   * @throws {BreakpointNotFoundError} If no stored breakpoint matches
+   */
+  async setBreakpointEnabled(
+    ref: BreakpointRef,
+    enabled: boolean
+  ): Promise<BreakpointEntry> {
+    const [, config] = this.findBreakpoint(ref);
+    config.enabled = enabled;
+
+    if (config.id !== undefined && this.connection?.isConnected()) {
+      await this.connection.updateBreakpoint(config.id, {
+        state: enabled ? 'enabled' : 'disabled',
+      });
+    }
+
+    logger.info('Breakpoint state changed', {
+      id: config.id,
+      file: config.file,
+      line: config.line,
+      enabled,
+    });
+
+    return this.getBreakpoint(ref);
+  }
+
   /**
    * Inspect a variable
    *
@@ -288,7 +521,8 @@ export class DebugSessionManager {
     const result = await this.connection.getProperty(
       name,
       actualDepth,
-      actualMaxChildren
+      actualMaxChildren,
+      this.session?.selectedFrame ?? 0
     );
 
     // Record to history for time-travel debugging
@@ -305,13 +539,244 @@ export class DebugSessionManager {
     return result;
   }
 
+  /**
+   * Evaluate a PHP expression in the paused frame
+   *
+   * @param expression - PHP expression (e.g., '$user->isAdmin()')
+   * @param depth - Recursion depth for the result (default: 1, max: config.maxDepth)
+   * @param allowSideEffects - Skip the side-effect guard
+   * @returns The result, or null if the expression produced no value
+   * @throws {UnsafeExpressionError} If the expression looks side-effecting
+   */
+  async evaluateExpression(
+    expression: string,
+    depth: number = 1,
+    allowSideEffects: boolean = false
+  ): Promise<VariableInfo | null> {
+    this.requireSession();
+    this.requirePaused();
+    this.resetWatchdog();
+
+    if (!allowSideEffects) {
+      const reason = detectSideEffect(expression);
+      if (reason) {
+        throw new UnsafeExpressionError(
+          expression,
+          reason,
+          'Set allow_side_effects: true to evaluate it anyway.'
+        );
+      }
+    }
+
+    if (!this.connection) {
+      throw new NotConnectedError();
+    }
+
+    const config = getConfig();
+    const result = await this.connection.evaluate(
+      expression,
+      Math.min(depth, config.maxDepth),
+      config.defaultMaxChildren
+    );
+
+    logger.info('Expression evaluated', { expression: expression.slice(0, 100), allowSideEffects });
+
+    // Record to history under the expression for time-travel queries
+    if (result && this.session?.location) {
+      await this.recorder.recordVariable(
+        this.session.id,
+        this.stepCount,
+        this.session.location,
+        expression,
+        result
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * List variables of the selected frame, grouped by DBGp context
+   *
+   * @param contextIds - Contexts to include (default: all the engine reports)
+   * @param depth - Recursion depth for values (default: 1, max: config.maxDepth)
+   */
+  async getContexts(
+    contextIds?: number[],
+    depth: number = 1
+  ): Promise<VariableContext[]> {
+    this.requireSession();
+    this.requirePaused();
+    this.resetWatchdog();
+
+    if (!this.connection) {
+      throw new NotConnectedError();
+    }
+
+    const config = getConfig();
+    const stackDepth = this.session?.selectedFrame ?? 0;
+    const names = await this.connection.getContextNames(stackDepth);
+    const contexts: VariableContext[] = [];
+
+    for (const { id, name } of names) {
+      if (contextIds && !contextIds.includes(id)) continue;
+
+      const variables = await this.connection.getContextVariables(
+        id,
+        stackDepth,
+        Math.min(depth, config.maxDepth),
+        config.defaultMaxChildren
+      );
+      contexts.push({ id, name, variables });
+    }
+
+    return contexts;
+  }
+
+  /**
+   * Set a variable's value in the paused frame
+   *
+   * The change is recorded so the session summary shows what was modified.
+   *
+   * @param name - Variable fullname (e.g., '$discount', '$order->status')
+   * @param value - New value as a PHP expression (e.g., '0', "'paid'", 'null')
+   * @param type - Optional PHP type to set the value as
+   * @param frame - Stack frame depth (default: the selected frame)
+   * @returns The variable after the change
+   * @throws {VariableSetError} If XDebug rejects the change
+   */
+  async setVariable(
+    name: string,
+    value: string,
+    type?: string,
+    frame?: number
+  ): Promise<VariableInfo | null> {
+    this.requireSession();
+    this.requirePaused();
+    this.resetWatchdog();
+
+    if (!this.connection) {
+      throw new NotConnectedError();
+    }
+
+    const stackDepth = frame ?? this.session?.selectedFrame ?? 0;
+
+    const before = await this.connection.getProperty(name, 1, 1, stackDepth);
+
+    const success = await this.connection.setProperty(name, value, type, stackDepth);
+    if (!success) {
+      throw new VariableSetError(name);
+    }
+
+    const after = await this.connection.getProperty(
+      name,
+      1,
+      getConfig().defaultMaxChildren,
+      stackDepth
+    );
+
+    logger.info('Variable set', { name, stackDepth, type });
+
+    if (this.session?.location) {
+      await this.recorder.recordModification(
+        this.session.id,
+        this.stepCount,
+        this.session.location,
+        name,
+        this.describeValue(before),
+        this.describeValue(after)
+      );
+
+      if (after) {
+        await this.recorder.recordVariable(
+          this.session.id,
+          this.stepCount,
+          this.session.location,
+          name,
+          after
+        );
+      }
+    }
+
+    return after;
+  }
+
+  /**
+   * Get the call stack with local paths and per-frame code snippets
+   *
+   * @param maxFrames - Maximum number of frames to return
+   */
+  async getStackTrace(maxFrames: number = 20): Promise<StackTraceFrame[]> {
+    this.requireSession();
+    this.requirePaused();
+    this.resetWatchdog();
+
+    if (!this.connection) {
+      throw new NotConnectedError();
+    }
+
+    const stack = await this.connection.getStackFrames();
+    const frames: StackTraceFrame[] = [];
+
+    for (const frame of stack.slice(0, maxFrames)) {
+      const file = this.pathMapper.toLocal(frame.filename);
+      let codeSnippet: string | undefined;
+      try {
+        codeSnippet = await this.readCodeSnippet(file, frame.lineno, 2);
+      } catch {
+        // File might not be accessible (e.g. eval'd code)
+      }
+
+      frames.push({
+        level: frame.level,
+        file,
+        line: frame.lineno,
+        function: frame.where,
+        codeSnippet,
+      });
+    }
+
+    return frames;
+  }
+
+  /**
+   * Select the stack frame used by subsequent variable inspection
+   *
+   * The selection resets to the current frame (0) on every pause.
+   *
+   * @param level - Stack level (0 = current frame)
+   * @returns The selected frame
+   * @throws {ValidationError} If the frame does not exist
+   */
+  async selectFrame(level: number): Promise<StackTraceFrame> {
+    const frames = await this.getStackTrace(level + 1);
+    const frame = frames.find((f) => f.level === level);
+
+    if (!frame) {
+      throw new ValidationError(
+        `Stack frame ${level} does not exist (stack depth: ${frames.length})`,
+        'level',
+        [`level must be between 0 and ${frames.length - 1}`]
+      );
+    }
+
+    this.session!.selectedFrame = level;
+    logger.info('Frame selected', { level, file: frame.file, line: frame.line });
+
+    return frame;
+  }
+
   /**
    * Execute a debug action
    *
    * @param action - Action to perform
+   * @param options - Target for run_to_line
    * @returns Updated session state
    */
-  async executeAction(action: ExecutionAction): Promise<SessionState> {
+  async executeAction(
+    action: ExecutionAction,
+    options: ExecutionOptions = {}
+  ): Promise<SessionState> {
     this.requireSession();
     this.resetWatchdog();
 
@@ -320,26 +785,56 @@ export class DebugSessionManager {
       return this.session!;
     }
 
+    if (action === 'detach') {
+      await this.detachSession();
+      return this.session!;
+    }
+
     if (!this.connection?.isConnected()) {
       throw new NotConnectedError();
     }
 
     logger.info('Executing action', { action });
+    this.skippedFrames = 0;
+    this.stepOriginDepth = this.stackDepth;
+
+    if (action === 'pause') {
+      await this.pauseExecution();
+      return this.session!;
+    }
+
+    if (action === 'step_until') {
+      this.lastStepUntil = await this.passOver(() => this.stepUntil(options));
+      return this.session!;
+    }
+
+    if (action === 'step_into_target') {
+      await this.passOver(() => this.stepIntoTarget(options.target));
+      return this.session!;
+    }
+
+    if (action === 'run_to_line') {
+      await this.setRunToLineTarget(options);
+    }
 
     // Map to DBGp commands
-    const commandMap: Record<Exclude<ExecutionAction, 'stop'>, string> = {
+    const commandMap: Record<
+      Exclude<ExecutionAction, 'stop' | 'detach' | 'step_until' | 'step_into_target' | 'pause'>,
+      string
+    > = {
       step_over: 'step_over',
       step_into: 'step_into',
       step_out: 'step_out',
       continue: 'run',
+      run_to_line: 'run',
     };
 
-    this.updateStatus('running');
-    await this.connection.sendCommand(commandMap[action]);
+    // Remember which function step_out leaves, for its return value
+    const returningFrom = action === 'step_out' ? this.session!.location?.function : undefined;
 
     // Wait for break or completion
     try {
-      await this.connection.waitForBreak();
+      await this.resume(commandMap[action]);
     } catch (error) {
       // Session may have ended
       if (!this.connection.isConnected()) {
@@ -347,78 +842,509 @@ export class DebugSessionManager {
       }
     }
 
+    if (returningFrom && this.session!.status === 'paused') {
+      await this.captureReturnValue(returningFrom);
+    }
+
+    await this.settleRunToLineTarget();
+
     return this.session!;
   }
 
   /**
-   * Query variable history (time-travel debugging)
+   * Add a watch expression, evaluated and recorded at every pause
    *
-   * @param variableName - Variable to query
-   * @param stepsAgo - How many steps back to look
-   * @param limit - Max entries to return
+   * @returns The current value if paused
+   * @throws {UnsafeExpressionError} If the expression looks side-effecting
    */
-  async getHistory(
-    variableName: string,
-    stepsAgo: number = 1,
-    limit: number = 5
-  ): Promise<unknown[]> {
-    this.requireSession();
+  async addWatch(expression: string): Promise<WatchValue | null> {
+    const reason = detectSideEffect(expression);
+    if (reason) {
+      throw new UnsafeExpressionError(expression, reason);
+    }
 
-    return this.recorder.getVariableHistory(
-      this.session!.id,
-      variableName,
-      this.stepCount - stepsAgo,
-      limit
-    );
+    if (!this.watches.includes(expression)) {
+      this.watches.push(expression);
+    }
+    logger.info('Watch added', { expression });
+
+    if (this.session?.status !== 'paused' || !this.connection?.isConnected()) {
+      return null;
+    }
+
+    const [value] = await this.evaluateWatches([expression]);
+    this.session.watchValues = [
+      ...(this.session.watchValues ?? []).filter((w) => w.expression !== expression),
+      value!,
+    ];
+    return value!;
   }
 
   /**
-   * Get current session state
+   * Remove a watch expression
+   *
+   * @returns Whether the expression was being watched
    */
-  getSession(): SessionState | null {
-    return this.session;
+  removeWatch(expression: string): boolean {
+    const index = this.watches.indexOf(expression);
+    if (index === -1) return false;
+
+    this.watches.splice(index, 1);
+    if (this.session?.watchValues) {
+      this.session.watchValues = this.session.watchValues.filter(
+        (w) => w.expression !== expression
+      );
+    }
+    logger.info('Watch removed', { expression });
+    return true;
+  }
+
+  getWatches(): string[] {
+    return [...this.watches];
   }
 
   /**
-   * Get current step count
+   * Logpoint messages from the current session, oldest first
+   *
+   * @param limit - Return only the most recent entries
    */
-  getStepCount(): number {
-    return this.stepCount;
+  getLogEntries(limit?: number): LogEntry[] {
+    return limit !== undefined ? this.logEntries.slice(-limit) : [...this.logEntries];
   }
 
   /**
-   * Stop the current session and clean up
+   * Script output from the current session
+   *
+   * @param tail - Return only the last N characters
    */
-  async stopSession(): Promise<void> {
-    if (this.isShuttingDown) return;
-    this.isShuttingDown = true;
-
-    logger.info('Stopping session');
+  getOutput(tail?: number): ScriptOutput {
+    return this.output.read(tail);
+  }
 
-    this.stopWatchdog();
+  /**
+   * Notifications from the current session, oldest first
+   *
+   * @param type - Only return events of this type
+   * @param limit - Return only the most recent entries
+   */
+  getSessionEvents(type?: SessionEvent['type'], limit?: number): SessionEvent[] {
+    const events = type
+      ? this.sessionEvents.filter((event) => event.type === type)
+      : [...this.sessionEvents];
+    return limit !== undefined ? events.slice(-limit) : events;
+  }
 
-    // Send stop command if connected
-    if (this.connection?.isConnected()) {
-      try {
-        await this.connection.sendCommand('stop');
-      } catch {
-        // Ignore errors during stop
-      }
+  /**
+   * Read $__RETURN_VALUE after step_out and record it under the function name
+   */
+  private async captureReturnValue(fn: string): Promise<void> {
+    if (!this.supportsReturnValue || !this.connection?.isConnected()) {
+      return;
     }
 
-    // Close connection
-    this.connection?.close();
-    this.connection = null;
+    try {
+      const config = getConfig();
+      const value = await this.connection.getProperty(
+        '$__RETURN_VALUE',
+        1,
+        config.defaultMaxChildren
+      );
+      if (!value) return;
 
-    // Finalize session
-    if (this.session && this.session.id !== 'pending') {
-      this.session.status = 'stopped';
+      this.session!.returnValue = { function: fn, value };
+      await this.recorder.recordVariable(
+        this.session!.id,
+        this.stepCount,
+        this.session!.location!,
+        fn,
+        value
+      );
+      logger.debug('Return value captured', { function: fn, type: value.type });
+    } catch (error) {
+      logger.debug('Return value not available', { function: fn, error });
+    }
+  }
+
+  /**
+   * Interrupt a running script where it is
+   *
+   * The continuation command that started the run completes with the
+   * break, so whoever awaits it sees the pause too.
+   *
+   * @throws {AsyncBreakUnsupportedError} If the engine can't break asynchronously
+   */
+  private async pauseExecution(): Promise<void> {
+    if (this.session!.status !== 'running') {
+      return;
+    }
+    if (!this.supportsAsync) {
+      throw new AsyncBreakUnsupportedError();
+    }
+
+    logger.info('Pause requested');
+
+    this.breakRequested = true;
+    const broke = this.connection!.waitForBreak(getConfig().connectionTimeout);
+    try {
+      await this.connection!.breakExecution();
+      await broke;
+      if (this.pendingBreak) {
+        await this.pendingBreak;
+      }
+    } catch (error) {
+      this.breakRequested = false;
+      throw error;
+    }
+  }
+
+  /**
+   * Whether XDebug takes commands (pause, detach) while the script runs
+   */
+  acceptsCommandsWhileRunning(): boolean {
+    return this.supportsAsync;
+  }
+
+  /**
+   * Outcome of the most recent step_until action
+   */
+  getLastStepUntil(): StepUntilResult | null {
+    return this.lastStepUntil;
+  }
+
+  /**
+   * Step repeatedly until a condition holds, a file or function is
+   * entered, or the step budget runs out
+   *
+   * Every step goes through handleBreak, so each one is recorded.
+   */
+  private async stepUntil(options: ExecutionOptions): Promise<StepUntilResult> {
+    const command = options.stepMode ?? 'step_over';
+    const maxSteps = options.maxSteps ?? DEFAULT_STEP_UNTIL_BUDGET;
+
+    if (options.untilExpression) {
+      const unsafe = detectSideEffect(options.untilExpression);
+      if (unsafe) {
+        throw new UnsafeExpressionError(options.untilExpression, unsafe);
+      }
+    }
+
+    const path: DebugLocation[] = [];
+    let inFile = this.inTargetFile(options.untilFile);
+    let inFunction = this.inTargetFunction(options.untilFunction);
+
+    logger.info('Step until', { command, maxSteps, ...options });
+
+    for (let step = 1; step <= maxSteps; step++) {
+      try {
+        await this.resume(command);
+      } catch {
+        if (!this.connection?.isConnected()) {
+          this.updateStatus('stopped');
+        }
+      }
+
+      if (this.session?.status !== 'paused' || !this.session.location) {
+        return { stopReason: 'session_ended', stepsTaken: step, path };
+      }
+
+      path.push({ ...this.session.location });
+
+      if (this.session.pauseReason !== 'step_complete') {
+        return { stopReason: 'interrupted', stepsTaken: step, path };
+      }
+
+      // "Entered" means crossing into the target, not already being there
+      const nowInFile = this.inTargetFile(options.untilFile);
+      if (nowInFile && !inFile) {
+        return { stopReason: 'file_entered', stepsTaken: step, path };
+      }
+      inFile = nowInFile;
+
+      const nowInFunction = this.inTargetFunction(options.untilFunction);
+      if (nowInFunction && !inFunction) {
+        return { stopReason: 'function_entered', stepsTaken: step, path };
+      }
+      inFunction = nowInFunction;
+
+      if (options.untilExpression && await this.isTruthy(options.untilExpression)) {
+        return { stopReason: 'condition_met', stepsTaken: step, path };
+      }
+    }
+
+    return { stopReason: 'budget_exhausted', stepsTaken: maxSteps, path };
+  }
+
+  /**
+   * Run a multi-step action whose intermediate pauses are passed over:
+   * locals are only diffed at the pause it ends on, against where it
+   * started (each pause is still snapshotted when auto-snapshot is on)
+   */
+  private async passOver<T>(navigate: () => Promise<T>): Promise<T> {
+    this.passingOver = true;
+    let result: T;
+    try {
+      result = await navigate();
+    } finally {
+      this.passingOver = false;
+    }
+
+    if (this.session?.status === 'paused' && this.session.location) {
+      await this.captureLocals(this.session.location, this.stackDepth, { snapshot: false });
+    }
+    return result;
+  }
+
+  private inTargetFile(file?: string): boolean {
+    const current = this.session?.location?.file;
+    if (!file || !current) return false;
+    return current === file || current.endsWith(`/${file.replace(/^\.?\//, '')}`);
+  }
+
+  /**
+   * Step into a named call on the current line
+   *
+   * A method of a fully-qualified class gets a temporary call breakpoint
+   * combined with step_over rather than run: step_over stops at
+   * breakpoints hit inside nested calls, so the target is entered if the
+   * line calls it. Other names are found by stepping into each call on
+   * the line and back out of the ones that aren't the target. Either way
+   * this is a regular step once the frame leaves the line.
+   */
+  private async stepIntoTarget(target?: string): Promise<void> {
+    if (!target) {
+      throw new ValidationError(
+        'step_into_target requires a target function',
+        'target',
+        ['target is required for step_into_target']
+      );
+    }
+
+    if (canUseCallBreakpoint(target)) {
+      await this.stepIntoCallBreakpoint(target);
+      return;
+    }
+
+    const origin = this.stepPosition();
+    logger.info('Step into target', { target, origin });
+
+    for (let step = 0; step < MAX_TARGET_STEPS; step++) {
+      const move = nextTargetStep(origin, this.stepPosition(), target);
+      if (move === 'entered' || move === 'left_line') return;
+
+      try {
+        await this.resume(move);
+      } catch {
+        if (!this.connection?.isConnected()) {
+          this.updateStatus('stopped');
+        }
+      }
+      if (this.session?.status !== 'paused') return;
+    }
+  }
+
+  private async stepIntoCallBreakpoint(target: string): Promise<void> {
+    const { id } = await this.connection!.setBreakpoint(
+      this.toBreakpointParams({
+        type: 'call',
+        function: target.replace('->', '::').replace(/^\\/, ''),
+        temporary: true,
+      })
+    );
+    logger.info('Step into target', { target, id });
+
+    try {
+      await this.resume('step_over');
+    } catch {
+      if (!this.connection?.isConnected()) {
+        this.updateStatus('stopped');
+      }
+    }
+
+    // XDebug drops the temporary breakpoint if it fired; otherwise remove it
+    if (!this.isPausedIn(target) && this.connection?.isConnected()) {
+      try {
+        await this.connection.removeBreakpoint(id);
+      } catch {
+        // Already gone
+      }
+    }
+  }
+
+  private stepPosition(): StepPosition {
+    const location = this.session?.location;
+    return {
+      file: location?.file ?? '',
+      line: location?.line ?? 0,
+      depth: this.stackDepth,
+      function: location?.function,
+    };
+  }
+
+  /**
+   * Whether execution is paused inside the given function
+   *
+   * @param fn - Function name, method name, or 'Class::method'
+   */
+  isPausedIn(fn: string): boolean {
+    return this.session?.status === 'paused' && this.inTargetFunction(fn);
+  }
+
+  private inTargetFunction(fn?: string): boolean {
+    return fn !== undefined && matchesFunction(this.session?.location?.function, fn);
+  }
+
+  /**
+   * Evaluate a condition with PHP truthiness; errors count as false
+   */
+  private async isTruthy(expression: string): Promise<boolean> {
+    try {
+      const result = await this.connection?.evaluate(expression, 1, 1);
+      if (!result) return false;
+
+      switch (result.type) {
+        case 'null':
+        case 'uninitialized':
+          return false;
+        case 'bool':
+        case 'int':
+        case 'float':
+          return Number(result.value) !== 0;
+        case 'string':
+          return result.value !== '' && result.value !== '0';
+        case 'array':
+          return (result.numchildren ?? 0) > 0;
+        default:
+          return true;
+      }
+    } catch (error) {
+      logger.debug('step_until condition failed', { expression, error });
+      return false;
+    }
+  }
+
+  /**
+   * Query variable history (time-travel debugging)
+   *
+   * @param variableName - Variable to query
+   * @param stepsAgo - How many steps back to look
+   * @param limit - Max entries to return
+   */
+  async getHistory(
+    variableName: string,
+    stepsAgo: number = 1,
+    limit: number = 5
+  ): Promise<unknown[]> {
+    this.requireSession();
+
+    return this.recorder.getVariableHistory(
+      this.session!.id,
+      variableName,
+      this.stepCount - stepsAgo,
+      limit
+    );
+  }
+
+  /**
+   * Get current session state
+   */
+  getSession(): SessionState | null {
+    return this.session;
+  }
+
+  /**
+   * Get current step count
+   */
+  getStepCount(): number {
+    return this.stepCount;
+  }
+
+  /**
+   * Stop the current session and clean up
+   */
+  async stopSession(): Promise<void> {
+    if (this.isShuttingDown) return;
+    this.isShuttingDown = true;
+
+    logger.info('Stopping session');
+
+    this.stopWatchdog();
+
+    // Send stop command if connected
+    if (this.connection?.isConnected()) {
+      try {
+        await this.connection.sendCommand('stop');
+      } catch {
+        // Ignore errors during stop
+      }
+    }
+
+    // Close connection
+    this.connection?.close();
+    this.connection = null;
+
+    // Finalize session
+    if (this.session && this.session.id !== 'pending') {
+      this.session.status = 'stopped';
       await this.recorder.finalizeSession(this.session.id);
     }
 
     this.isShuttingDown = false;
   }
 
+  /**
+   * Stop debugging but let the script run to completion
+   *
+   * Detaching ends debugging, breakpoints included (they stay in the
+   * session for the next run); the trigger is given time to finish, and
+   * the recording is finalized as with stop.
+   *
+   * @throws {AsyncBreakUnsupportedError} If the script is running and
+   *   XDebug can't take the detach command until it pauses
+   */
+  async detachSession(): Promise<void> {
+    if (!this.connection?.isConnected()) {
+      await this.stopSession();
+      return;
+    }
+    if (this.session!.status === 'running' && !this.supportsAsync) {
+      throw new AsyncBreakUnsupportedError('detach');
+    }
+    if (this.isShuttingDown) return;
+    this.isShuttingDown = true;
+
+    logger.info('Detaching session');
+
+    this.stopWatchdog();
+
+    // Engine ids don't carry over to the next session
+    for (const bp of this.session!.breakpoints.values()) {
+      bp.id = undefined;
+    }
+
+    try {
+      await this.connection.detach();
+    } catch (error) {
+      logger.warn('Detach failed', { error });
+    }
+
+    const trigger = await this.connection.waitForTriggerExit(getConfig().connectionTimeout);
+
+    // Leave a still-running trigger alone; it finishes without us
+    this.connection.close(false);
+    this.connection = null;
+
+    this.session!.status = 'stopped';
+    this.session!.trigger = trigger ?? undefined;
+    await this.recorder.finalizeSession(this.session!.id);
+
+    logger.info('Session detached', {
+      exitCode: trigger?.exitCode,
+      completed: trigger?.completed,
+    });
+
+    this.isShuttingDown = false;
+  }
+
   /**
    * Clean shutdown of all resources
    */
@@ -438,8 +1364,20 @@ export class DebugSessionManager {
       this.updateStatus('connected');
     });
 
-    this.connection.on('break', async (data: BreakEventData) => {
-      await this.handleBreak(data);
+    this.connection.on('break', (data: BreakEventData) => {
+      this.pendingBreak = this.handleBreak(data).catch((error) => {
+        logger.error('Failed to handle break', { error });
+      });
+    });
+
+    this.connection.on('notify', (data: NotifyEventData) => {
+      this.handleNotify(data).catch((error) => {
+        logger.error('Failed to handle notification', { error });
+      });
+    });
+
+    this.connection.on('stream', (data: StreamEventData) => {
+      this.output.append(data.data);
     });
 
     this.connection.on('error', (error) => {
@@ -456,8 +1394,171 @@ export class DebugSessionManager {
     });
   }
 
+  private async handleNotify(data: NotifyEventData): Promise<void> {
+    let event: SessionEvent;
+
+    if (data.name === 'error') {
+      event = {
+        type: 'php_error',
+        timestamp: new Date().toISOString(),
+        stepNumber: this.stepCount,
+        location: { file: this.pathMapper.toLocal(data.filename), line: data.lineno },
+        level: data.level,
+        message: data.message,
+      };
+      await this.recorder.recordPhpError(this.session!.id, event);
+    } else {
+      const bp = data.breakpoint;
+      const where = bp.filename
+        ? `${this.pathMapper.toLocal(bp.filename)}:${bp.lineno}`
+        : bp.function ?? bp.exception ?? bp.type;
+      event = {
+        type: 'breakpoint_resolved',
+        timestamp: new Date().toISOString(),
+        stepNumber: this.stepCount,
+        message: `Breakpoint ${bp.id} resolved at ${where}`,
+        breakpointId: bp.id,
+      };
+    }
+
+    this.sessionEvents.push(event);
+    if (this.sessionEvents.length > MAX_SESSION_EVENTS) {
+      this.sessionEvents.shift();
+    }
+    logger.debug('Notification', { type: event.type, message: event.message });
+  }
+
+  /**
+   * Send a continuation command (run/step) and wait until XDebug pauses
+   * again or the script ends, including processing of the break event
+   *
+   * @param continuing - The command carries on from a pause that isn't
+   *   surfaced (a skipped frame or filtered exception) rather than
+   *   starting a new step
+   */
+  private async resume(command: string, continuing = false): Promise<void> {
+    if (!this.connection) {
+      throw new NotConnectedError();
+    }
+
+    if (!continuing) {
+      this.issuedStep = { command, depth: this.stackDepth };
+      this.resumingStep = false;
+    }
+    this.lastResumeCommand = command;
+    this.pendingBreak = null;
+    this.updateStatus('running');
+
+    // The response to a continuation command arrives when execution breaks
+    await this.connection.sendCommand(command);
+
+    if (this.pendingBreak) {
+      await this.pendingBreak;
+    }
+  }
+
+  /**
+   * Place the temporary breakpoint for run_to_line
+   */
+  private async setRunToLineTarget(options: ExecutionOptions): Promise<void> {
+    const localFile = options.file ?? this.session!.location?.file;
+    if (!localFile || options.line === undefined) {
+      throw new ValidationError(
+        'run_to_line requires a line (and a file when the current location is unknown)',
+        'line',
+        ['line is required for run_to_line']
+      );
+    }
+
+    await this.ensureMappingsLoaded();
+    const remoteFile = this.pathMapper.toRemote(localFile);
+
+    const { id } = await this.connection!.setBreakpoint({
+      type: 'line',
+      filename: remoteFile,
+      lineno: options.line,
+      temporary: true,
+    });
+    this.runToLineTarget = { id, file: remoteFile, line: options.line };
+
+    logger.info('Run to line', { file: localFile, remoteFile, line: options.line, id });
+  }
+
+  /**
+   * Whether an enabled line breakpoint (or logpoint) is set at a location
+   */
+  private hasLineBreakpoint(remoteFile: string, line: number): boolean {
+    return [...(this.session?.breakpoints.values() ?? [])].some(
+      (bp) =>
+        (bp.type ?? 'line') === 'line' &&
+        bp.enabled !== false &&
+        bp.file === remoteFile &&
+        bp.line === line
+    );
+  }
+
+  private isRunToLineTarget(remoteFile: string, line: number): boolean {
+    return this.runToLineTarget?.file === remoteFile && this.runToLineTarget.line === line;
+  }
+
+  /**
+   * Remove the run_to_line breakpoint after any pause
+   *
+   * @returns Whether execution stopped at the target itself
+   */
+  private async clearRunToLineTarget(remoteFile: string, line: number): Promise<boolean> {
+    const target = this.runToLineTarget;
+    if (!target) return false;
+    const reached = this.isRunToLineTarget(remoteFile, line);
+    this.runToLineTarget = null;
+
+    // XDebug drops temporary breakpoints once hit; otherwise remove it so
+    // it can't fire later
+    if (!reached && this.connection?.isConnected()) {
+      try {
+        await this.connection.removeBreakpoint(target.id);
+      } catch {
+        // Already gone
+      }
+    }
+
+    return reached;
+  }
+
+  /**
+   * Deal with a run_to_line target no pause cleared
+   *
+   * Once the script ended it's gone. If the wait timed out and the script
+   * is still running, it's removed when the engine accepts commands while
+   * running; otherwise it stays tracked so the next pause clears it.
+   */
+  private async settleRunToLineTarget(): Promise<void> {
+    const target = this.runToLineTarget;
+    if (!target) return;
+
+    if (!this.connection?.isConnected()) {
+      this.runToLineTarget = null;
+    } else if (this.session?.status === 'running' && this.supportsAsync) {
+      try {
+        await this.connection.removeBreakpoint(target.id);
+        this.runToLineTarget = null;
+      } catch {
+        logger.debug('Failed to remove run_to_line breakpoint', { id: target.id });
+      }
+    }
+  }
+
   private async handleBreak(data: BreakEventData): Promise<void> {
-    this.stepCount++;
+    // XDebug reports reason "ok" for breakpoint hits as well as completed
+    // steps; a pause following 'run' can only come from a breakpoint, or
+    // from a requested break
+    let reason: PauseReason = data.reason;
+    if (this.breakRequested) {
+      this.breakRequested = false;
+      reason = 'user_break';
+    } else if (data.reason === 'step_complete' && this.lastResumeCommand === 'run') {
+      reason = 'breakpoint_hit';
+    }
 
     // Debug: log raw data from XDebug
     logger.debug('Break event data', {
@@ -466,10 +1567,26 @@ export class DebugSessionManager {
       reason: data.reason,
     });
 
+    let remoteFile = data.filename;
     let localFile = this.pathMapper.toLocal(data.filename);
     let lineNo = data.lineno;
     logger.debug('Path mapping result', { rawFilename: data.filename, localFile });
 
+    // Entry steps outside application code are passed over without
+    // fetching the stack; stepToAppCode issues the next step
+    if (this.seekingAppCode) {
+      if (
+        reason === 'step_complete' &&
+        !this.isAppFile(localFile) &&
+        this.entrySteps < getConfig().entryMaxSteps
+      ) {
+        this.entrySteps++;
+        return;
+      }
+      this.seekingAppCode = false;
+      logger.info('Entry stepping finished', { file: localFile, steps: this.entrySteps });
+    }
+
     const location: DebugLocation = {
       file: localFile,
       line: lineNo,
@@ -477,14 +1594,19 @@ export class DebugSessionManager {
 
     // Get stack for function context AND actual file location
     // XDebug sometimes sends empty filename in break events
+    let stackDepth = 0;
+    let topFrameFile = localFile;
     if (this.connection?.isConnected()) {
       try {
         const stack = await this.connection.getStackFrames();
+        stackDepth = stack.length;
         if (stack.length > 0 && stack[0]) {
           location.function = stack[0].where;
+          topFrameFile = this.pathMapper.toLocal(stack[0].filename);
 
           // Use stack frame location if break event had empty filename
           if (!data.filename || data.filename.trim() === '') {
+            remoteFile = stack[0].filename;
             localFile = this.pathMapper.toLocal(stack[0].filename);
             lineNo = stack[0].lineno;
             location.file = localFile;
@@ -497,6 +1619,70 @@ export class DebugSessionManager {
       }
     }
 
+    // XDebug reports a breakpoint hit during step_over/step_out with
+    // reason "ok" too; stopping deeper than where the step started can
+    // only be a breakpoint
+    if (
+      reason === 'step_complete' &&
+      this.issuedStep.command !== 'step_into' &&
+      stackDepth > this.issuedStep.depth &&
+      this.hasLineBreakpoint(remoteFile, lineNo)
+    ) {
+      reason = 'breakpoint_hit';
+    }
+
+    // Still returning to the frame of a step a filtered exception interrupted
+    if (
+      reason === 'step_complete' &&
+      this.resumingStep &&
+      resumeCommand(this.issuedStep, stackDepth) === 'step_out'
+    ) {
+      await this.resumeInterruptedStep(stackDepth);
+      return;
+    }
+
+    if (reason === 'step_complete' && this.isSkippedFrame(topFrameFile)) {
+      await this.stepPastSkippedFrame(topFrameFile, stackDepth);
+      return;
+    }
+
+    if (
+      (reason === 'exception' || reason === 'php_error') &&
+      await this.isFilteredException(data, reason, topFrameFile)
+    ) {
+      logger.info('Exception skipped by filter', {
+        exception: data.exception?.name,
+        file: topFrameFile,
+      });
+      await this.resumeInterruptedStep(stackDepth);
+      return;
+    }
+
+    const hits = reason === 'breakpoint_hit' || reason === 'exception' || reason === 'php_error'
+      ? this.recordBreakpointHits(data, reason, remoteFile, lineNo, location.function)
+      : [];
+
+    // Logpoints log and carry on unless something else wants to stop here
+    if (
+      hits.length > 0 &&
+      hits.every((bp) => bp.logMessage) &&
+      !this.isRunToLineTarget(remoteFile, lineNo)
+    ) {
+      await this.logAndContinue(hits, location, stackDepth);
+      return;
+    }
+
+    this.stepCount++;
+
+    // Reaching a run_to_line target is navigation, not a user breakpoint
+    if (
+      await this.clearRunToLineTarget(remoteFile, lineNo) &&
+      reason === 'breakpoint_hit' &&
+      hits.length === 0
+    ) {
+      reason = 'step_complete';
+    }
+
     // Read code snippet
     let codeSnippet: string | undefined;
     try {
@@ -510,7 +1696,12 @@ export class DebugSessionManager {
       this.session.status = 'paused';
       this.session.location = location;
       this.session.codeSnippet = codeSnippet;
-      this.session.pauseReason = data.reason;
+      this.session.pauseReason = reason;
+      this.session.selectedFrame = 0;
+      this.session.returnValue = undefined;
+      this.session.skippedFrames = this.skippedFrames;
+      this.stackDepth = stackDepth;
+      this.resumingStep = false;
       this.session.lastActivityAt = new Date();
     }
 
@@ -519,19 +1710,424 @@ export class DebugSessionManager {
       this.session!.id,
       this.stepCount,
       location,
-      data.reason
+      reason
     );
 
+    this.session!.exception = reason === 'exception'
+      ? await this.describeException(data, location)
+      : undefined;
+    this.session!.phpError = reason === 'php_error' && data.exception
+      ? {
+          level: data.exception.name,
+          message: data.exception.message,
+          code: data.exception.code,
+        }
+      : undefined;
+    if (this.session!.exception) {
+      await this.recorder.recordException(
+        this.session!.id,
+        this.stepCount,
+        location,
+        this.session!.exception
+      );
+    }
+
+    this.session!.watchValues = await this.evaluateWatches(this.watches);
+
+    await this.captureLocals(location, stackDepth, { diff: !this.passingOver });
+
     logger.info('Break hit', {
       file: localFile,
       line: data.lineno,
-      reason: data.reason,
+      reason,
       stepCount: this.stepCount,
     });
 
     this.resetWatchdog();
   }
 
+  /**
+   * Attribute a pause to stored breakpoints and update their hit counts
+   *
+   * DBGp break responses don't identify the breakpoint that fired, so
+   * breakpoints are matched by location, function or exception class.
+   */
+  private recordBreakpointHits(
+    data: BreakEventData,
+    reason: PauseReason,
+    remoteFile: string,
+    line: number,
+    where?: string
+  ): BreakpointConfig[] {
+    if (!this.session) return [];
+
+    // Stack frames report methods as 'Class->method' or 'Class::method'
+    const current = where?.replace('->', '::');
+    const matched: BreakpointConfig[] = [];
+
+    for (const [key, bp] of this.session.breakpoints) {
+      if (bp.enabled === false) continue;
+
+      let matches: boolean;
+      switch (bp.type ?? 'line') {
+        case 'call':
+        case 'return':
+          matches =
+            reason === 'breakpoint_hit' &&
+            current !== undefined &&
+            (current === bp.function || current.endsWith(`::${bp.function}`));
+          break;
+        case 'exception':
+          matches =
+            (reason === 'exception' || reason === 'php_error') &&
+            (bp.exception === '*' || bp.exception === data.exception?.name);
+          break;
+        case 'watch':
+          matches = false;
+          break;
+        default:
+          matches = reason === 'breakpoint_hit' && bp.file === remoteFile && bp.line === line;
+      }
+
+      if (!matches) continue;
+
+      bp.hits = (bp.hits ?? 0) + 1;
+      matched.push(bp);
+
+      // XDebug removes temporary breakpoints after their first hit
+      if (bp.temporary) {
+        this.session.breakpoints.delete(key);
+      }
+    }
+
+    return matched;
+  }
+
+  /**
+   * Fetch a bounded view of the current frame's locals, diff it against
+   * the previous pause in the same frame, and record it if auto-snapshot
+   * is on
+   *
+   * @param options.diff - Update the session's changes (default: true)
+   * @param options.snapshot - Record the snapshot (default: true)
+   */
+  private async captureLocals(
+    location: DebugLocation,
+    stackDepth: number,
+    { diff = true, snapshot = true }: { diff?: boolean; snapshot?: boolean } = {}
+  ): Promise<void> {
+    const record = snapshot && this.autoSnapshot;
+    if (!this.connection?.isConnected() || (!diff && !record)) return;
+
+    const config = getConfig();
+    try {
+      const locals = (
+        await this.connection.getContextVariables(
+          0,
+          0,
+          config.snapshotMaxDepth,
+          config.snapshotMaxChildren
+        )
+      ).slice(0, config.snapshotMaxVariables);
+
+      if (diff) {
+        // Frames deeper than the current one have returned
+        for (const key of this.frameLocals.keys()) {
+          if (Number(key.slice(0, key.indexOf(':'))) > stackDepth) {
+            this.frameLocals.delete(key);
+          }
+        }
+
+        const frameKey = `${stackDepth}:${location.function ?? ''}`;
+        const previous = this.frameLocals.get(frameKey);
+        this.session!.changes = previous ? diffVariables(previous, locals) : undefined;
+        this.frameLocals.set(frameKey, locals);
+      }
+
+      if (record) {
+        const written = await this.recorder.recordSnapshot(
+          this.session!.id,
+          this.stepCount,
+          location,
+          locals,
+          config.snapshotMaxValueBytes
+        );
+        logger.debug('Snapshot recorded', { step: this.stepCount, locals: locals.length, written });
+      }
+    } catch (error) {
+      logger.warn('Failed to capture locals', { error });
+    }
+  }
+
+  /**
+   * Enrich an exception break with message, code, previous chain and trace
+   *
+   * Falls back to the break message and the current call stack when the
+   * exception object can't be read.
+   */
+  private async describeException(
+    data: BreakEventData,
+    location: DebugLocation
+  ): Promise<ExceptionInfo> {
+    try {
+      const thrown = await readThrownException(this.connection!);
+      if (thrown) {
+        return {
+          ...thrown,
+          file: thrown.file ? this.pathMapper.toLocal(thrown.file) : location.file,
+          line: thrown.line ?? location.line,
+          trace: thrown.trace.map((f) => ({
+            ...f,
+            file: f.file ? this.pathMapper.toLocal(f.file) : undefined,
+          })),
+        };
+      }
+    } catch (error) {
+      logger.debug('Exception object not available', { error });
+    }
+
+    let trace: ExceptionInfo['trace'] = [];
+    try {
+      const stack = await this.connection!.getStackFrames();
+      trace = stack.map((frame) => ({
+        file: this.pathMapper.toLocal(frame.filename),
+        line: frame.lineno,
+        function: frame.where ?? '{main}',
+      }));
+    } catch {
+      // Non-critical
+    }
+
+    return {
+      class: data.exception?.name ?? 'Exception',
+      message: data.exception?.message ?? '',
+      code: data.exception?.code,
+      file: location.file,
+      line: location.line,
+      previous: [],
+      trace,
+    };
+  }
+
+  /**
+   * Evaluate watch expressions in the current frame and record their values
+   */
+  private async evaluateWatches(expressions: string[]): Promise<WatchValue[]> {
+    const values: WatchValue[] = [];
+
+    for (const expression of expressions) {
+      try {
+        const result = await this.connection!.evaluate(expression, 1, 20);
+        values.push({ expression, value: formatLogValue(result) });
+
+        // Recorded like auto-snapshots: history, but not "inspected"
+        if (result && this.session?.location) {
+          await this.recorder.recordSnapshot(
+            this.session.id,
+            this.stepCount,
+            this.session.location,
+            [{ ...result, name: expression }],
+            getConfig().snapshotMaxValueBytes
+          );
+        }
+      } catch (error) {
+        values.push({
+          expression,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Render logpoint messages, record them and resume execution
+   */
+  private async logAndContinue(
+    logpoints: BreakpointConfig[],
+    location: DebugLocation,
+    stackDepth: number
+  ): Promise<void> {
+    for (const bp of logpoints) {
+      const entry: LogEntry = {
+        stepNumber: this.stepCount,
+        location,
+        message: await this.renderLogMessage(bp.logMessage!),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.logEntries.push(entry);
+      if (this.logEntries.length > MAX_LOG_ENTRIES) {
+        this.logEntries.shift();
+      }
+      await this.recorder.recordLog(this.session!.id, entry);
+
+      logger.info('Logpoint', { file: location.file, line: location.line, message: entry.message });
+    }
+
+    // A logpoint hit during a step mustn't turn it into a continue
+    await this.resumeInterruptedStep(stackDepth);
+  }
+
+  /**
+   * Step into the script until the top frame is inside an application
+   * directory, or entryMaxSteps runs out
+   *
+   * Steps can't skip framework calls with step_out here: framework code
+   * is what calls into the application (e.g. the router dispatching to a
+   * controller).
+   */
+  private async stepToAppCode(): Promise<void> {
+    this.seekingAppCode = true;
+    this.entrySteps = 0;
+    try {
+      while (this.seekingAppCode && this.connection?.isConnected()) {
+        const before = this.entrySteps;
+        await this.resume('step_into');
+        // No break was passed over: the script is ending
+        if (this.entrySteps === before) break;
+      }
+    } finally {
+      this.seekingAppCode = false;
+    }
+  }
+
+  private isAppFile(localFile: string): boolean {
+    const rel = this.pathMapper.toProjectRelative(localFile);
+    if (!rel) return false;
+    return getConfig().appDirs.some((dir) => {
+      const prefix = dir.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/?$/, '/');
+      return rel.startsWith(prefix);
+    });
+  }
+
+  /**
+   * Whether just-my-code should step past a step that landed in this file
+   */
+  private isSkippedFrame(file: string): boolean {
+    return (
+      this.justMyCode &&
+      this.skippedFrames < MAX_SKIPPED_FRAMES &&
+      this.isSkippedFile(file)
+    );
+  }
+
+  /**
+   * Whether a local file matches the skip globs (what counts as vendor
+   * code for just-my-code and skip_vendor_exceptions)
+   */
+  private isSkippedFile(file: string): boolean {
+    return matchesSkipGlob(file, this.pathMapper.toProjectRelative(file), getConfig().skipGlobs);
+  }
+
+  /**
+   * Step on from a skipped frame
+   *
+   * Below the frame the action started in, step_into follows framework
+   * dispatch (router, pipeline, collection callbacks) into the
+   * application code it calls. Once the stack is back at that depth the
+   * skipped code is a caller, so step_out leaves it; the main script frame
+   * (depth 1) can only be stepped through.
+   */
+  private async stepPastSkippedFrame(file: string, stackDepth: number): Promise<void> {
+    this.skippedFrames++;
+    const command = stackDepth > this.stepOriginDepth || stackDepth <= 1 ? 'step_into' : 'step_out';
+    logger.debug('Skipping frame', { file, stackDepth, command, skipped: this.skippedFrames });
+
+    try {
+      await this.resume(command, true);
+    } catch {
+      if (!this.connection?.isConnected()) {
+        this.updateStatus('stopped');
+      }
+    }
+  }
+
+  /**
+   * Carry on with the run or step a filtered exception or logpoint
+   * interrupted, so a step_over doesn't turn into a continue
+   */
+  private async resumeInterruptedStep(stackDepth: number): Promise<void> {
+    this.resumingStep = true;
+    const command = resumeCommand(this.issuedStep, stackDepth);
+    logger.debug('Resuming interrupted step', { step: this.issuedStep, stackDepth, command });
+
+    try {
+      await this.resume(command, true);
+    } catch {
+      if (!this.connection?.isConnected()) {
+        this.updateStatus('stopped');
+      }
+    }
+  }
+
+  /**
+   * Whether an exception pause should be skipped per the session's filter
+   */
+  private async isFilteredException(
+    data: BreakEventData,
+    reason: PauseReason,
+    throwingFile: string
+  ): Promise<boolean> {
+    const name = data.exception?.name;
+    if (!name) return false;
+
+    const explicitBreakpoint = [...this.session!.breakpoints.values()].some(
+      (bp) =>
+        bp.type === 'exception' &&
+        bp.enabled !== false &&
+        (bp.exception === '*' || matchesClass(name, bp.exception ?? ''))
+    );
+
+    return isFilteredException(
+      {
+        name,
+        // PHP error levels aren't classes
+        ancestors: reason === 'exception' && this.exceptionFilter.exclude?.length
+          ? await this.classAncestors(name)
+          : [],
+        inSkippedFile: this.isSkippedFile(throwingFile),
+        explicitBreakpoint,
+      },
+      this.exceptionFilter
+    );
+  }
+
+  /**
+   * Parent classes and interfaces of a class, so excludes match subclasses
+   */
+  private async classAncestors(className: string): Promise<string[]> {
+    try {
+      const result = await this.connection!.evaluate(ancestryExpression(className), 1, 1);
+      return typeof result?.value === 'string' && result.value
+        ? result.value.split(',')
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async renderLogMessage(template: string): Promise<string> {
+    const parts = parseLogTemplate(template);
+    const rendered: string[] = [];
+
+    for (const part of parts) {
+      if (typeof part === 'string') {
+        rendered.push(part);
+        continue;
+      }
+      try {
+        const value = await this.connection!.evaluate(part.expression, 1, 1);
+        rendered.push(formatLogValue(value));
+      } catch {
+        rendered.push(`<error: ${part.expression}>`);
+      }
+    }
+
+    return rendered.join('');
+  }
+
   private async readCodeSnippet(
     file: string,
     line: number,
@@ -553,17 +2149,105 @@ export class DebugSessionManager {
       .join('\n');
   }
 
-  private async setAllBreakpoints(): Promise<void> {
-    if (!this.connection || !this.session) return;
+  private breakpointKey(config: BreakpointConfig): string {
+    switch (config.type ?? 'line') {
+      case 'call':
+      case 'return':
+        return `${config.type}:${config.function}`;
+      case 'exception':
+        return `exception:${config.exception ?? '*'}`;
+      case 'watch':
+        return `watch:${config.expression}`;
+      default:
+        return `${config.file}:${config.line}`;
+    }
+  }
 
-    for (const [, bp] of this.session.breakpoints) {
-      try {
-        const result = await this.connection.setBreakpoint({
+  private toBreakpointParams(bp: BreakpointConfig): BreakpointParams {
+    const state = bp.enabled === false ? 'disabled' : 'enabled';
+    const hit = {
+      hitValue: bp.hitValue,
+      hitCondition: bp.hitCondition,
+      temporary: bp.temporary,
+    };
+
+    switch (bp.type ?? 'line') {
+      case 'call':
+      case 'return': {
+        // DBGp takes the class and method of 'Class::method' as separate arguments
+        const separator = bp.function?.lastIndexOf('::') ?? -1;
+        return {
+          type: bp.type as 'call' | 'return',
+          function: separator >= 0 ? bp.function!.slice(separator + 2) : bp.function,
+          class: separator >= 0 ? bp.function!.slice(0, separator) : undefined,
+          expression: bp.condition,
+          state,
+          ...hit,
+        };
+      }
+      case 'exception':
+        return { type: 'exception', exception: bp.exception ?? '*', state, ...hit };
+      case 'watch':
+        return { type: 'watch', expression: bp.expression, state, ...hit };
+      default:
+        return {
           type: 'line',
           filename: bp.file,
           lineno: bp.line,
           expression: bp.condition,
-        });
+          state,
+          ...hit,
+        };
+    }
+  }
+
+  /**
+   * Compact representation of a value for the modification log
+   */
+  private describeValue(info: VariableInfo | null): unknown {
+    if (!info) return null;
+    if (info.numchildren !== undefined && info.numchildren > 0) {
+      return `${info.classname ?? info.type}(${info.numchildren})`;
+    }
+    return info.value ?? null;
+  }
+
+  private findBreakpoint(ref: BreakpointRef): [string, BreakpointConfig] {
+    if (this.session) {
+      if (ref.id !== undefined) {
+        for (const entry of this.session.breakpoints) {
+          if (entry[1].id === ref.id) {
+            return entry;
+          }
+        }
+      } else if (ref.file && ref.line !== undefined) {
+        const key = `${ref.file}:${ref.line}`;
+        const config = this.session.breakpoints.get(key);
+        if (config) {
+          return [key, config];
+        }
+      }
+    }
+
+    throw new BreakpointNotFoundError(
+      ref.id !== undefined ? `#${ref.id}` : `${ref.file}:${ref.line}`
+    );
+  }
+
+  private toLocalBreakpointInfo(info: BreakpointInfo): BreakpointInfo {
+    return info.filename
+      ? { ...info, filename: this.pathMapper.toLocal(info.filename) }
+      : info;
+  }
+
+  private async setAllBreakpoints(): Promise<void> {
+    if (!this.connection || !this.session) return;
+
+    for (const [, bp] of this.session.breakpoints) {
+      try {
+        const result = await this.connection.setBreakpoint(
+          this.toBreakpointParams(bp)
+        );
         bp.id = result.id;
       } catch (error) {
         logger.warn('Failed to set breakpoint', { error, bp });
@@ -609,7 +2293,7 @@ export class DebugSessionManager {
   private startWatchdog(): void {
     this.stopWatchdog();
 
-    const timeout = getConfig().watchdogTimeout;
+    const timeout = this.watchdogTimeout ?? getConfig().watchdogTimeout;
     this.watchdogTimer = setTimeout(() => {
       logger.warn('Watchdog timeout - terminating idle session', {
         timeout,
@@ -15,7 +15,17 @@
 import Database from 'better-sqlite3';
 import { join } from 'path';
 import { mkdirSync, writeFileSync } from 'fs';
-import type { DebugLocation, SessionSummary, PauseReason } from '../types/index.js';
+import type {
+  DebugLocation,
+  ExceptionInfo,
+  ExceptionRecord,
+  LogEntry,
+  SessionEvent,
+  SessionSummary,
+  PauseReason,
+  VariableInfo,
+  VariableModification,
+} from '../types/index.js';
 import { createLogger } from '../utils/logger.js';
 import { getConfig } from '../config.js';
 
@@ -57,6 +67,8 @@ export interface HistoryEntry {
 export class SessionRecorder {
   private db: Database.Database | null = null;
   private dataDir: string;
+  /** Last snapshot value per frame and variable ("file|function|name"), for deduplication */
+  private snapshotValues = new Map<string, string>();
 
   constructor(dataDir?: string) {
     this.dataDir = dataDir ?? getConfig().dataDir ?? join(process.cwd(), '.xdebug-mcp');
@@ -73,6 +85,7 @@ export class SessionRecorder {
 
     // Close existing connection if any
     this.close();
+    this.snapshotValues.clear();
 
     this.db = new Database(dbPath);
 
@@ -116,10 +129,76 @@ export class SessionRecorder {
         FOREIGN KEY (session_id) REFERENCES sessions(id)
       );
 
+      -- Auto-snapshot values, kept apart so the summary only lists inspections
+      CREATE TABLE IF NOT EXISTS snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        step_number INTEGER NOT NULL,
+        timestamp TEXT NOT NULL,
+        file TEXT NOT NULL,
+        line INTEGER NOT NULL,
+        variable_name TEXT NOT NULL,
+        variable_value TEXT NOT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS modifications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        step_number INTEGER NOT NULL,
+        timestamp TEXT NOT NULL,
+        file TEXT NOT NULL,
+        line INTEGER NOT NULL,
+        variable_name TEXT NOT NULL,
+        old_value TEXT NOT NULL,
+        new_value TEXT NOT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        step_number INTEGER NOT NULL,
+        timestamp TEXT NOT NULL,
+        file TEXT NOT NULL,
+        line INTEGER NOT NULL,
+        message TEXT NOT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS exceptions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        step_number INTEGER NOT NULL,
+        timestamp TEXT NOT NULL,
+        file TEXT NOT NULL,
+        line INTEGER NOT NULL,
+        class TEXT NOT NULL,
+        message TEXT NOT NULL,
+        code TEXT,
+        previous TEXT NOT NULL,
+        trace TEXT NOT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS php_errors (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        step_number INTEGER NOT NULL,
+        timestamp TEXT NOT NULL,
+        file TEXT NOT NULL,
+        line INTEGER NOT NULL,
+        level TEXT NOT NULL,
+        message TEXT NOT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      );
+
       CREATE INDEX IF NOT EXISTS idx_steps_session
         ON steps(session_id, step_number);
       CREATE INDEX IF NOT EXISTS idx_variables_lookup
         ON variables(session_id, variable_name, step_number DESC);
+      CREATE INDEX IF NOT EXISTS idx_snapshots_lookup
+        ON snapshots(session_id, variable_name, step_number DESC);
     `);
 
     // Insert session record
@@ -225,6 +304,193 @@ export class SessionRecorder {
     }
   }
 
+  /**
+   * Record a snapshot of locals, skipping values unchanged since the
+   * previous snapshot
+   *
+   * Values larger than maxValueBytes are stored as a type summary.
+   *
+   * @returns Number of variables written
+   */
+  async recordSnapshot(
+    sessionId: string,
+    stepNumber: number,
+    location: DebugLocation,
+    variables: VariableInfo[],
+    maxValueBytes: number
+  ): Promise<number> {
+    if (!this.db) return 0;
+
+    const insert = this.db.prepare(
+      `INSERT INTO snapshots
+       (session_id, step_number, timestamp, file, line, variable_name, variable_value)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+    const timestamp = new Date().toISOString();
+    let written = 0;
+
+    try {
+      const writeAll = this.db.transaction(() => {
+        for (const variable of variables) {
+          let serialized = this.safeStringify(variable);
+          if (serialized.length > maxValueBytes) {
+            serialized = this.safeStringify({
+              name: variable.name,
+              type: variable.type,
+              classname: variable.classname,
+              numchildren: variable.numchildren,
+              truncated: true,
+            });
+          }
+
+          // $id in one function is a different variable from $id in another
+          const key = `${location.file}|${location.function ?? ''}|${variable.name}`;
+          if (this.snapshotValues.get(key) === serialized) continue;
+          this.snapshotValues.set(key, serialized);
+
+          insert.run(
+            sessionId,
+            stepNumber,
+            timestamp,
+            location.file,
+            location.line,
+            variable.name,
+            serialized
+          );
+          written++;
+        }
+      });
+      writeAll();
+    } catch (error) {
+      logger.warn('Failed to record snapshot', { error, sessionId, stepNumber });
+    }
+
+    return written;
+  }
+
+  /**
+   * Record a variable modification made by the agent
+   */
+  async recordModification(
+    sessionId: string,
+    stepNumber: number,
+    location: DebugLocation,
+    variableName: string,
+    oldValue: unknown,
+    newValue: unknown
+  ): Promise<void> {
+    if (!this.db) return;
+
+    try {
+      this.db
+        .prepare(
+          `INSERT INTO modifications
+           (session_id, step_number, timestamp, file, line, variable_name, old_value, new_value)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          sessionId,
+          stepNumber,
+          new Date().toISOString(),
+          location.file,
+          location.line,
+          variableName,
+          this.safeStringify(oldValue ?? null),
+          this.safeStringify(newValue ?? null)
+        );
+    } catch (error) {
+      logger.warn('Failed to record modification', { error, variableName });
+    }
+  }
+
+  /**
+   * Record a message rendered by a logpoint
+   */
+  async recordLog(sessionId: string, entry: LogEntry): Promise<void> {
+    if (!this.db) return;
+
+    try {
+      this.db
+        .prepare(
+          `INSERT INTO logs
+           (session_id, step_number, timestamp, file, line, message)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          sessionId,
+          entry.stepNumber,
+          entry.timestamp,
+          entry.location.file,
+          entry.location.line,
+          entry.message
+        );
+    } catch (error) {
+      logger.warn('Failed to record log message', { error, sessionId });
+    }
+  }
+
+  /**
+   * Record an exception execution paused on
+   */
+  async recordException(
+    sessionId: string,
+    stepNumber: number,
+    location: DebugLocation,
+    exception: ExceptionInfo
+  ): Promise<void> {
+    if (!this.db) return;
+
+    try {
+      this.db
+        .prepare(
+          `INSERT INTO exceptions
+           (session_id, step_number, timestamp, file, line, class, message, code, previous, trace)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          sessionId,
+          stepNumber,
+          new Date().toISOString(),
+          location.file,
+          location.line,
+          exception.class,
+          exception.message,
+          exception.code !== undefined ? String(exception.code) : null,
+          this.safeStringify(exception.previous),
+          this.safeStringify(exception.trace)
+        );
+    } catch (error) {
+      logger.warn('Failed to record exception', { error, sessionId, class: exception.class });
+    }
+  }
+
+  /**
+   * Record a PHP error reported through a notification
+   */
+  async recordPhpError(sessionId: string, event: SessionEvent): Promise<void> {
+    if (!this.db) return;
+
+    try {
+      this.db
+        .prepare(
+          `INSERT INTO php_errors
+           (session_id, step_number, timestamp, file, line, level, message)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          sessionId,
+          event.stepNumber,
+          event.timestamp,
+          event.location?.file ?? '',
+          event.location?.line ?? 0,
+          event.level ?? 'Error',
+          event.message
+        );
+    } catch (error) {
+      logger.warn('Failed to record PHP error', { error, sessionId });
+    }
+  }
+
   /**
    * Get variable history for time-travel debugging
    */
@@ -240,12 +506,23 @@ export class SessionRecorder {
       const rows = this.db
         .prepare(
           `SELECT variable_value, step_number, file, line, timestamp
-           FROM variables
-           WHERE session_id = ? AND variable_name = ? AND step_number <= ?
+           FROM (
+             SELECT variable_value, step_number, file, line, timestamp
+             FROM variables
+             WHERE session_id = ? AND variable_name = ? AND step_number <= ?
+             UNION ALL
+             SELECT variable_value, step_number, file, line, timestamp
+             FROM snapshots
+             WHERE session_id = ? AND variable_name = ? AND step_number <= ?
+           )
            ORDER BY step_number DESC
            LIMIT ?`
         )
-        .all(sessionId, variableName, fromStep, limit) as Array<{
+        .all(
+          sessionId, variableName, fromStep,
+          sessionId, variableName, fromStep,
+          limit
+        ) as Array<{
         variable_value: string;
         step_number: number;
         file: string;
@@ -310,6 +587,75 @@ export class SessionRecorder {
         )
         .all(sessionId) as Array<{ variable_name: string }>;
 
+      // Get modifications in order
+      const modifications = this.db
+        .prepare(
+          `SELECT step_number, file, line, variable_name, old_value, new_value
+           FROM modifications
+           WHERE session_id = ?
+           ORDER BY id`
+        )
+        .all(sessionId) as Array<{
+        step_number: number;
+        file: string;
+        line: number;
+        variable_name: string;
+        old_value: string;
+        new_value: string;
+      }>;
+
+      // Get logpoint output in order
+      const logs = this.db
+        .prepare(
+          `SELECT step_number, timestamp, file, line, message
+           FROM logs
+           WHERE session_id = ?
+           ORDER BY id`
+        )
+        .all(sessionId) as Array<{
+        step_number: number;
+        timestamp: string;
+        file: string;
+        line: number;
+        message: string;
+      }>;
+
+      // Get exceptions in order
+      const exceptions = this.db
+        .prepare(
+          `SELECT step_number, file, line, class, message, code, previous, trace
+           FROM exceptions
+           WHERE session_id = ?
+           ORDER BY id`
+        )
+        .all(sessionId) as Array<{
+        step_number: number;
+        file: string;
+        line: number;
+        class: string;
+        message: string;
+        code: string | null;
+        previous: string;
+        trace: string;
+      }>;
+
+      // Get PHP errors in order
+      const phpErrors = this.db
+        .prepare(
+          `SELECT step_number, timestamp, file, line, level, message
+           FROM php_errors
+           WHERE session_id = ?
+           ORDER BY id`
+        )
+        .all(sessionId) as Array<{
+        step_number: number;
+        timestamp: string;
+        file: string;
+        line: number;
+        level: string;
+        message: string;
+      }>;
+
       const endedAt = new Date();
       const startedAt = new Date(session.started_at);
 
@@ -331,6 +677,46 @@ export class SessionRecorder {
           function: s.function ?? undefined,
         })),
         variablesInspected: variables.map((v) => v.variable_name),
+        variablesModified: modifications.map(
+          (m): VariableModification => ({
+            stepNumber: m.step_number,
+            location: { file: m.file, line: m.line },
+            variableName: m.variable_name,
+            oldValue: this.safeParse(m.old_value),
+            newValue: this.safeParse(m.new_value),
+          })
+        ),
+        logMessages: logs.map(
+          (l): LogEntry => ({
+            stepNumber: l.step_number,
+            location: { file: l.file, line: l.line },
+            message: l.message,
+            timestamp: l.timestamp,
+          })
+        ),
+        exceptions: exceptions.map(
+          (e): ExceptionRecord => ({
+            stepNumber: e.step_number,
+            location: { file: e.file, line: e.line },
+            exception: {
+              class: e.class,
+              message: e.message,
+              code: e.code ?? undefined,
+              previous: this.safeParse(e.previous) as ExceptionInfo['previous'],
+              trace: this.safeParse(e.trace) as ExceptionInfo['trace'],
+            },
+          })
+        ),
+        phpErrors: phpErrors.map(
+          (e): SessionEvent => ({
+            type: 'php_error',
+            timestamp: e.timestamp,
+            stepNumber: e.step_number,
+            location: { file: e.file, line: e.line },
+            level: e.level,
+            message: e.message,
+          })
+        ),
         duration: endedAt.getTime() - startedAt.getTime(),
       };
 
@@ -388,7 +774,9 @@ export class SessionRecorder {
     md += `| Total Steps | ${summary.totalSteps} |\n`;
     md += `| Breakpoints Hit | ${summary.breakpointsHit} |\n`;
     md += `| Exceptions Thrown | ${summary.exceptionsThrown} |\n`;
-    md += `| Variables Inspected | ${summary.variablesInspected.length} |\n\n`;
+    md += `| Variables Inspected | ${summary.variablesInspected.length} |\n`;
+    md += `| Variables Modified | ${summary.variablesModified.length} |\n`;
+    md += `| Log Messages | ${summary.logMessages.length} |\n\n`;
 
     if (summary.executionPath.length > 0) {
       md += `## Execution Path\n\n`;
@@ -417,6 +805,60 @@ export class SessionRecorder {
       md += '\n';
     }
 
+    if (summary.variablesModified.length > 0) {
+      md += `## Variables Modified\n\n`;
+      md += `| Step | Location | Variable | Old Value | New Value |\n`;
+      md += `|------|----------|----------|-----------|-----------|\n`;
+      for (const m of summary.variablesModified) {
+        md += `| ${m.stepNumber} | ${m.location.file}:${m.location.line} | \`${m.variableName}\` | `;
+        md += `\`${this.safeStringify(m.oldValue)}\` | \`${this.safeStringify(m.newValue)}\` |\n`;
+      }
+      md += '\n';
+    }
+
+    if (summary.exceptions.length > 0) {
+      md += `## Exceptions\n\n`;
+      for (const record of summary.exceptions) {
+        const { exception: e, location } = record;
+        const code = e.code !== undefined && e.code !== '0' && e.code !== 0 ? ` (code ${e.code})` : '';
+        md += `- **${e.class}**${code}: ${e.message} — ${location.file}:${location.line} (step ${record.stepNumber})\n`;
+        for (const cause of e.previous) {
+          md += `  - caused by **${cause.class}**: ${cause.message}\n`;
+        }
+      }
+      md += '\n';
+    }
+
+    if (summary.phpErrors.length > 0) {
+      md += `## PHP Errors\n\n`;
+
+      const maxLines = 50;
+      for (const e of summary.phpErrors.slice(0, maxLines)) {
+        md += `- **${e.level}**: ${e.message} — ${e.location?.file}:${e.location?.line}\n`;
+      }
+
+      if (summary.phpErrors.length > maxLines) {
+        md += `- ... and ${summary.phpErrors.length - maxLines} more\n`;
+      }
+      md += '\n';
+    }
+
+    if (summary.logMessages.length > 0) {
+      md += `## Logpoint Output\n\n`;
+      md += `\`\`\`\n`;
+
+      const maxLines = 50;
+      for (const entry of summary.logMessages.slice(0, maxLines)) {
+        md += `[${entry.location.file}:${entry.location.line}] ${entry.message}\n`;
+      }
+
+      if (summary.logMessages.length > maxLines) {
+        md += `... and ${summary.logMessages.length - maxLines} more messages\n`;
+      }
+
+      md += `\`\`\`\n\n`;
+    }
+
     md += `---\n`;
     md += `*Generated by Smart XDebug MCP*\n`;
 
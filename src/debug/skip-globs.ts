@@ -0,0 +1,71 @@
+/**
+ * Skip Globs
+ *
+ * Matches local file paths against the "just my code" skip globs
+ * (e.g. `vendor/**`) so stepping can pass over framework frames.
+ *
+ * @packageDocumentation
+ * @module debug/skip-globs
+ *
+ * Copyright 2026 Tyler Wall
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Convert a glob to a regular expression
+ *
+ * Supports `**` (any number of directories), `*` (within one path
+ * segment) and `?` (one character).
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*' && glob[i + 1] === '*') {
+      // '**/' also matches zero directories
+      if (glob[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Whether a file matches any of the skip globs
+ *
+ * Relative globs (`vendor/**`) are resolved against the project root, so
+ * a project that itself lives under a directory named vendor isn't
+ * skipped; they never match files outside the project. Absolute globs
+ * (`/usr/share/php/**`) match the full local path.
+ *
+ * @param file - Local path
+ * @param relative - The path relative to the project root, if inside it
+ */
+export function matchesSkipGlob(
+  file: string,
+  relative: string | undefined,
+  globs: string[]
+): boolean {
+  if (!file) return false;
+  const absolute = file.replace(/\\/g, '/');
+
+  return globs.some((glob) => {
+    const pattern = glob.replace(/\\/g, '/');
+    if (pattern.startsWith('/') || /^[A-Za-z]:\//.test(pattern)) {
+      return globToRegExp(pattern).test(absolute);
+    }
+    return relative !== undefined &&
+      globToRegExp(pattern.replace(/^\.\//, '')).test(relative.replace(/\\/g, '/'));
+  });
+}
@@ -0,0 +1,37 @@
+/**
+ * Step Resume
+ *
+ * Decides how to carry on with a step that was interrupted by a pause
+ * the agent never sees (an exception continued past by the exception
+ * filter), so the step still ends where it would have without it.
+ *
+ * @packageDocumentation
+ * @module debug/step-resume
+ *
+ * Copyright 2026 Tyler Wall
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A continuation command and the stack depth it was issued at */
+export interface IssuedStep {
+  command: string;
+  /** Stack depth (1 = main script) */
+  depth: number;
+}
+
+/**
+ * Command that resumes an interrupted step from the given depth
+ *
+ * step_over and step_out return to their frame with step_out (one frame
+ * at a time) before stepping on; run and step_into are re-issued as is.
+ */
+export function resumeCommand(step: IssuedStep, depth: number): string {
+  switch (step.command) {
+    case 'step_over':
+      return depth > step.depth ? 'step_out' : 'step_over';
+    case 'step_out':
+      return depth >= step.depth ? 'step_out' : 'step_over';
+    default:
+      return step.command;
+  }
+}
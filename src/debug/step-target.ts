@@ -0,0 +1,80 @@
+/**
+ * Step Target
+ *
+ * Decides how step_into_target moves towards a named callee on the
+ * current line when it can't use a call breakpoint: XDebug matches call
+ * breakpoints on the fully-qualified class only, so a bare method name
+ * ('apply') or a short class ('TaxCalculator::apply') is found by
+ * stepping into each call the line makes.
+ *
+ * @packageDocumentation
+ * @module debug/step-target
+ *
+ * Copyright 2026 Tyler Wall
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Where execution is paused, as far as target stepping cares */
+export interface StepPosition {
+  file: string;
+  line: number;
+  /** Stack depth (1 = main script) */
+  depth: number;
+  /** Stack frame 'where', e.g. 'App\\Services\\TaxCalculator->apply' */
+  function?: string;
+}
+
+/**
+ * Next move: step into the next call, step out of a call that isn't the
+ * target, or stop because the target was entered or the line was left
+ */
+export type TargetStep = 'step_into' | 'step_out' | 'entered' | 'left_line';
+
+/**
+ * Whether a stack frame is the given function
+ *
+ * Accepts a function or method name ('apply'), a class and method with
+ * either separator ('TaxCalculator::apply', 'TaxCalculator->apply') and
+ * short or fully-qualified class names.
+ */
+export function matchesFunction(where: string | undefined, target: string): boolean {
+  if (!where || !target) return false;
+  // Stack frames report methods as 'Class->method' or 'Class::method'
+  const current = where.replace('->', '::');
+  const wanted = target.replace('->', '::').replace(/^\\/, '');
+  return (
+    current === wanted ||
+    current.endsWith(`::${wanted}`) ||
+    current.endsWith(`\\${wanted}`)
+  );
+}
+
+/**
+ * Whether a call breakpoint can find the target: only a method of a
+ * fully-qualified (namespaced) class. A bare name may be a method as well
+ * as a function, so it's found by stepping.
+ */
+export function canUseCallBreakpoint(target: string): boolean {
+  const separator = target.replace('->', '::').lastIndexOf('::');
+  return separator === -1 ? false : target.slice(0, separator).replace(/^\\/, '').includes('\\');
+}
+
+/**
+ * Decide the next move after a pause while looking for the target
+ *
+ * @param origin - Where step_into_target was issued
+ * @param current - Where execution paused now
+ */
+export function nextTargetStep(
+  origin: StepPosition,
+  current: StepPosition,
+  target: string
+): TargetStep {
+  if (current.depth > origin.depth) {
+    return matchesFunction(current.function, target) ? 'entered' : 'step_out';
+  }
+  if (current.depth < origin.depth || current.file !== origin.file || current.line !== origin.line) {
+    return 'left_line';
+  }
+  return 'step_into';
+}
@@ -0,0 +1,86 @@
+/**
+ * Strategy Presets
+ *
+ * Named bundles of session settings for start_debug_session per REQ-3:
+ * standard (breakpoints only), panic (break on exceptions and errors)
+ * and profile (break on entry). Users can add or replace presets through
+ * the config `strategies` map.
+ *
+ * @packageDocumentation
+ * @module debug/strategies
+ *
+ * Copyright 2026 Tyler Wall
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getConfig } from '../config.js';
+import { ValidationError } from '../errors.js';
+import type { DebugSessionConfig, StrategyPreset } from '../types/index.js';
+
+/** Built-in presets */
+export const BUILTIN_STRATEGIES: Record<string, StrategyPreset> = {
+  standard: {
+    description: 'Pause on breakpoints only',
+  },
+  panic: {
+    description: 'Pause on exceptions and warnings raised outside vendor/, recording locals at every pause',
+    stopOnException: true,
+    exceptionFilter: { skipVendor: true },
+    errorLevels: ['Warning'],
+    autoSnapshot: true,
+  },
+  profile: {
+    description: 'Pause at the first line of application code and step past vendor frames',
+    stopOnEntry: true,
+    entryMode: 'app_code',
+    justMyCode: true,
+    // Stepping through a request takes longer than waiting on a breakpoint
+    watchdogTimeout: 900_000,
+  },
+};
+
+/**
+ * Look up a preset; user-defined presets replace built-ins of the same name
+ *
+ * @throws {ValidationError} If no preset has that name
+ */
+export function resolveStrategy(name: string): StrategyPreset {
+  const strategies = { ...BUILTIN_STRATEGIES, ...getConfig().strategies };
+  const preset = strategies[name];
+  if (!preset) {
+    const available = Object.keys(strategies);
+    throw new ValidationError(
+      `Unknown strategy '${name}'. Available: ${available.join(', ')}`,
+      'strategy',
+      [`strategy must be one of: ${available.join(', ')}`]
+    );
+  }
+  return preset;
+}
+
+/**
+ * Fill settings the caller left unset from the session's strategy
+ *
+ * Exception filter fields merge individually, so `exception_exclude` can
+ * be added to panic without losing its vendor skipping.
+ */
+export function applyStrategy(config: DebugSessionConfig): DebugSessionConfig {
+  if (!config.strategy) return config;
+  const preset = resolveStrategy(config.strategy);
+
+  return {
+    ...config,
+    stopOnEntry: config.stopOnEntry ?? preset.stopOnEntry,
+    entryMode: config.entryMode ?? preset.entryMode,
+    stopOnException: config.stopOnException ?? preset.stopOnException,
+    exceptionFilter: {
+      include: config.exceptionFilter?.include ?? preset.exceptionFilter?.include,
+      exclude: config.exceptionFilter?.exclude ?? preset.exceptionFilter?.exclude,
+      skipVendor: config.exceptionFilter?.skipVendor ?? preset.exceptionFilter?.skipVendor,
+    },
+    errorLevels: config.errorLevels ?? preset.errorLevels,
+    autoSnapshot: config.autoSnapshot ?? preset.autoSnapshot,
+    justMyCode: config.justMyCode ?? preset.justMyCode,
+    watchdogTimeout: config.watchdogTimeout ?? preset.watchdogTimeout,
+  };
+}
@@ -95,6 +95,23 @@ export class SessionStoppedError extends SessionError {
   }
 }
 
+/**
+ * Engine can't take commands (break, detach) while the script runs
+ */
+export class AsyncBreakUnsupportedError extends SessionError {
+  constructor(action: 'pause' | 'detach' = 'pause') {
+    super(
+      action === 'pause'
+        ? 'XDebug does not support pausing a running script (supports_async is off). ' +
+          'Set a breakpoint in the loop, or stop the session with control_execution({action: "stop"}).'
+        : 'XDebug does not accept commands while the script runs (supports_async is off), ' +
+          'so it can only detach once paused. Wait for a breakpoint, or stop the session with control_execution({action: "stop"}).',
+      'ASYNC_BREAK_UNSUPPORTED',
+      true
+    );
+  }
+}
+
 /**
  * Connection-related errors
  */
@@ -184,6 +201,59 @@ export class VariableNotFoundError extends XDebugMcpError {
   }
 }
 
+/**
+ * XDebug rejected a property_set
+ */
+export class VariableSetError extends XDebugMcpError {
+  public readonly variableName: string;
+
+  constructor(variableName: string) {
+    super(
+      `Failed to set '${variableName}'. ` +
+      'Check that the variable exists in the selected frame and the value is a valid PHP expression.',
+      'VARIABLE_SET_FAILED',
+      true
+    );
+    this.name = 'VariableSetError';
+    this.variableName = variableName;
+  }
+}
+
+/**
+ * Expression rejected by the side-effect guard; only evaluate_expression
+ * can override it, so only its hint names allow_side_effects
+ */
+export class UnsafeExpressionError extends XDebugMcpError {
+  public readonly expression: string;
+  public readonly reason: string;
+
+  constructor(expression: string, reason: string, hint?: string) {
+    super(
+      `Expression looks side-effecting (${reason}): '${expression}'.` +
+      (hint ? ` ${hint}` : ''),
+      'UNSAFE_EXPRESSION',
+      true
+    );
+    this.name = 'UnsafeExpressionError';
+    this.expression = expression;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Breakpoint not found in session storage
+ */
+export class BreakpointNotFoundError extends XDebugMcpError {
+  constructor(ref: string) {
+    super(
+      `Breakpoint ${ref} not found. Use list_breakpoints to see registered breakpoints.`,
+      'BREAKPOINT_NOT_FOUND',
+      true
+    );
+    this.name = 'BreakpointNotFoundError';
+  }
+}
+
 /**
  * Invalid JSONPath filter
  */
@@ -0,0 +1,47 @@
+/**
+ * add_watch Tool Handler
+ *
+ * Watch expressions are evaluated and recorded at every pause, so
+ * query_history has their values without anyone inspecting them.
+ */
+
+import { z } from 'zod';
+import type { DebugSessionManager } from '../debug/session-manager.js';
+import type { SessionState } from '../types/index.js';
+
+const AddWatchSchema = z.object({
+  expression: z.string().min(1, 'Expression is required'),
+});
+
+export async function handleAddWatch(
+  args: Record<string, unknown>,
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const parsed = AddWatchSchema.parse(args);
+
+  const current = await sessionManager.addWatch(parsed.expression);
+
+  return {
+    success: true,
+    expression: parsed.expression,
+    current: current ? current.value ?? `<error: ${current.error}>` : undefined,
+    watches: sessionManager.getWatches(),
+    message: current
+      ? `Watching ${parsed.expression}`
+      : `Watching ${parsed.expression}. It will be evaluated at the next pause.`,
+    hint: "Watched values appear in every pause response and are available via 'query_history'.",
+  };
+}
+
+/**
+ * Compact watch values for pause responses: expression → rendered value
+ */
+export function formatWatchValues(session: SessionState): Record<string, string> | undefined {
+  if (session.status !== 'paused' || !session.watchValues?.length) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    session.watchValues.map((w) => [w.expression, w.value ?? `<error: ${w.error}>`])
+  );
+}
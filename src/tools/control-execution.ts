@@ -4,20 +4,80 @@
 
 import { z } from 'zod';
 import type { DebugSessionManager } from '../debug/session-manager.js';
-import type { ExecutionAction } from '../types/index.js';
+import { formatWatchValues } from './add-watch.js';
+import { outputTail } from './get-output.js';
+import { summarizeStructure } from './inspect-variable.js';
+import type {
+  DebugLocation,
+  ExecutionAction,
+  SessionState,
+  StepUntilStopReason,
+} from '../types/index.js';
 
 const ControlExecutionSchema = z.object({
-  action: z.enum(['step_over', 'step_into', 'step_out', 'continue', 'stop']),
-});
+  action: z.enum([
+    'step_over',
+    'step_into',
+    'step_out',
+    'continue',
+    'run_to_line',
+    'step_until',
+    'step_into_target',
+    'pause',
+    'detach',
+    'stop',
+  ]),
+  file: z.string().optional(),
+  line: z.number().int().positive().optional(),
+  step_mode: z.enum(['step_over', 'step_into']).optional().default('step_over'),
+  until_expression: z.string().min(1).optional(),
+  until_file: z.string().min(1).optional(),
+  until_function: z.string().min(1).optional(),
+  max_steps: z.number().int().min(1).max(500).optional().default(50),
+  target: z.string().min(1).optional(),
+}).refine(
+  (data) => data.action !== 'run_to_line' || data.line !== undefined,
+  { message: 'line is required for run_to_line', path: ['line'] }
+).refine(
+  (data) =>
+    data.action !== 'step_until' ||
+    data.until_expression !== undefined ||
+    data.until_file !== undefined ||
+    data.until_function !== undefined,
+  {
+    message: 'step_until requires until_expression, until_file or until_function',
+    path: ['until_expression'],
+  }
+).refine(
+  (data) => data.action !== 'step_into_target' || data.target !== undefined,
+  { message: 'target is required for step_into_target', path: ['target'] }
+);
 
 const ACTION_DESCRIPTIONS: Record<ExecutionAction, string> = {
   step_over: 'Executed current line, paused at next line',
   step_into: 'Stepped into function call',
   step_out: 'Executed until function returned',
   continue: 'Continued execution',
+  run_to_line: 'Ran to target line',
+  step_until: 'Stepped until target reached',
+  step_into_target: 'Stepped into target call',
+  pause: 'Paused running script',
+  detach: 'Detached; script ran to completion',
   stop: 'Debug session terminated',
 };
 
+/** Trigger output shown after detach, in characters */
+const TRIGGER_OUTPUT_TAIL = 2000;
+
+const STEP_UNTIL_DESCRIPTIONS: Record<StepUntilStopReason, string> = {
+  condition_met: 'Stepped until the condition became true',
+  file_entered: 'Stepped until the target file was entered',
+  function_entered: 'Stepped until the target function was entered',
+  budget_exhausted: 'Step budget exhausted before the target was reached',
+  interrupted: 'Stepping interrupted by an exception or breakpoint',
+  session_ended: 'Script finished while stepping',
+};
+
 export async function handleControlExecution(
   args: Record<string, unknown>,
   sessionManager: DebugSessionManager
@@ -25,7 +85,36 @@ export async function handleControlExecution(
   const parsed = ControlExecutionSchema.parse(args);
   const action = parsed.action as ExecutionAction;
 
-  const session = await sessionManager.executeAction(action);
+  const session = await sessionManager.executeAction(action, {
+    file: parsed.file,
+    line: parsed.line,
+    stepMode: parsed.step_mode,
+    untilExpression: parsed.until_expression,
+    untilFile: parsed.until_file,
+    untilFunction: parsed.until_function,
+    maxSteps: parsed.max_steps,
+    target: parsed.target,
+  });
+
+  if (action === 'detach') {
+    const trigger = session.trigger;
+    return {
+      status: 'stopped',
+      action,
+      message: trigger && !trigger.completed
+        ? 'Detached. The script is still running and will finish on its own.'
+        : ACTION_DESCRIPTIONS[action],
+      trigger: trigger
+        ? {
+            exit_code: trigger.exitCode,
+            signal: trigger.signal,
+            completed: trigger.completed,
+            output: trigger.output.slice(-TRIGGER_OUTPUT_TAIL) || undefined,
+          }
+        : undefined,
+      hint: "Use 'start_debug_session' to begin a new session. Breakpoints are kept.",
+    };
+  }
 
   if (action === 'stop') {
     return {
@@ -35,10 +124,17 @@ export async function handleControlExecution(
     };
   }
 
+  const stepUntil = action === 'step_until' ? sessionManager.getLastStepUntil() : null;
+
   return {
     status: session.status,
     action: action,
-    message: ACTION_DESCRIPTIONS[action],
+    message: describeAction(action, session, sessionManager, parsed),
+    ...(stepUntil && {
+      stop_reason: stepUntil.stopReason,
+      steps_taken: stepUntil.stepsTaken,
+      path: stepUntil.path.map(formatPathEntry),
+    }),
     location: session.location ? {
       file: session.location.file,
       line: session.location.line,
@@ -46,10 +142,49 @@ export async function handleControlExecution(
     } : undefined,
     code_snippet: session.codeSnippet,
     pause_reason: session.pauseReason,
+    exception: session.status === 'paused' ? session.exception : undefined,
+    php_error: session.status === 'paused' ? session.phpError : undefined,
+    changes: session.status === 'paused' ? session.changes : undefined,
+    skipped_frames: session.status === 'paused' && session.skippedFrames
+      ? session.skippedFrames
+      : undefined,
+    return_value: session.status === 'paused' && session.returnValue
+      ? { function: session.returnValue.function, ...summarizeStructure(session.returnValue.value) }
+      : undefined,
+    watches: formatWatchValues(session),
+    output_tail: outputTail(session, sessionManager),
     hint: session.status === 'paused'
       ? "Use 'inspect_variable' to examine state at this location."
       : session.status === 'stopped'
         ? 'Execution completed or session ended.'
-        : 'Running...',
+        : 'Still running. Use control_execution({action: "pause"}) to interrupt it.',
   };
 }
+
+function formatPathEntry(location: DebugLocation): string {
+  const where = `${location.file}:${location.line}`;
+  return location.function ? `${where} (${location.function})` : where;
+}
+
+/**
+ * run_to_line may stop short of its target if something else pauses first
+ */
+function describeAction(
+  action: ExecutionAction,
+  session: SessionState,
+  sessionManager: DebugSessionManager,
+  parsed: { line?: number; target?: string }
+): string {
+  const { line, target } = parsed;
+  if (action === 'step_into_target' && session.status === 'paused' && !sessionManager.isPausedIn(target!)) {
+    return `'${target}' was not called from this line; stepped over it instead.`;
+  }
+  if (action === 'step_until') {
+    const result = sessionManager.getLastStepUntil();
+    return result ? STEP_UNTIL_DESCRIPTIONS[result.stopReason] : ACTION_DESCRIPTIONS[action];
+  }
+  if (action === 'run_to_line' && session.status === 'paused' && session.location?.line !== line) {
+    return `Paused before reaching line ${line}`;
+  }
+  return ACTION_DESCRIPTIONS[action];
+}
@@ -0,0 +1,54 @@
+/**
+ * evaluate_expression Tool Handler
+ *
+ * Evaluates a PHP expression in the paused frame. Results go through the
+ * same JSONPath filter / structure summary pipeline as inspect_variable.
+ */
+
+import { z } from 'zod';
+import type { DebugSessionManager } from '../debug/session-manager.js';
+import { presentVariable } from './inspect-variable.js';
+
+const EvaluateExpressionSchema = z.object({
+  expression: z.string().min(1, 'Expression is required'),
+  filter: z.string().optional(),
+  depth: z.number().int().min(1).max(3).optional().default(1),
+  allow_side_effects: z.boolean().optional().default(false),
+});
+
+export async function handleEvaluateExpression(
+  args: Record<string, unknown>,
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const parsed = EvaluateExpressionSchema.parse(args);
+
+  const result = await sessionManager.evaluateExpression(
+    parsed.expression,
+    parsed.depth,
+    parsed.allow_side_effects
+  );
+
+  if (!result) {
+    return {
+      expression: parsed.expression,
+      type: 'null',
+      value: null,
+      hint: 'The expression produced no value. Check for typos in variable or method names.',
+    };
+  }
+
+  // Scalars are cheap - return the value directly
+  if (!parsed.filter && (!result.children || result.children.length === 0) && !result.numchildren) {
+    return {
+      expression: parsed.expression,
+      type: result.type,
+      classname: result.classname,
+      value: result.value,
+    };
+  }
+
+  return {
+    expression: parsed.expression,
+    ...presentVariable(result, parsed.filter),
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * get_log_messages Tool Handler
+ *
+ * Returns messages rendered by logpoints in the current session.
+ */
+
+import { z } from 'zod';
+import type { DebugSessionManager } from '../debug/session-manager.js';
+
+const GetLogMessagesSchema = z.object({
+  limit: z.number().int().min(1).max(500).optional().default(50),
+});
+
+export async function handleGetLogMessages(
+  args: Record<string, unknown>,
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const parsed = GetLogMessagesSchema.parse(args);
+
+  const entries = sessionManager.getLogEntries(parsed.limit);
+
+  if (entries.length === 0) {
+    return {
+      count: 0,
+      messages: [],
+      message: 'No logpoint messages recorded.',
+      hint: "Use 'set_breakpoint' with 'log_message' to add a logpoint.",
+    };
+  }
+
+  return {
+    count: entries.length,
+    messages: entries.map((entry) => ({
+      step: entry.stepNumber,
+      location: `${entry.location.file}:${entry.location.line}`,
+      function: entry.location.function,
+      message: entry.message,
+      timestamp: entry.timestamp,
+    })),
+    message: `${entries.length} most recent logpoint message(s)`,
+  };
+}
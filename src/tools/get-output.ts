@@ -0,0 +1,59 @@
+/**
+ * get_output Tool Handler
+ *
+ * Returns what the script echoed, captured through DBGp stdout/stderr
+ * redirection. Works for PHP-FPM requests whose output never reaches
+ * the trigger command.
+ */
+
+import { z } from 'zod';
+import type { DebugSessionManager } from '../debug/session-manager.js';
+import type { SessionState } from '../types/index.js';
+import { getConfig } from '../config.js';
+
+const GetOutputSchema = z.object({
+  tail: z.number().int().min(1).optional(),
+});
+
+export async function handleGetOutput(
+  args: Record<string, unknown>,
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const parsed = GetOutputSchema.parse(args);
+
+  const { output, totalLength } = sessionManager.getOutput(parsed.tail);
+
+  if (totalLength === 0) {
+    return {
+      output: '',
+      total_length: 0,
+      message: 'No output captured yet.',
+      hint: 'Output is captured once XDebug connects. Buffered output (ob_start) only arrives when PHP flushes it.',
+    };
+  }
+
+  return {
+    output,
+    total_length: totalLength,
+    truncated: output.length < totalLength,
+    message: output.length < totalLength
+      ? `Last ${output.length} of ${totalLength} characters`
+      : `${totalLength} characters of output`,
+  };
+}
+
+/**
+ * The end of the captured output for pause responses
+ */
+export function outputTail(
+  session: SessionState,
+  sessionManager: DebugSessionManager
+): string | undefined {
+  const size = getConfig().outputTailSize;
+  if (session.status !== 'paused' || size === 0) {
+    return undefined;
+  }
+
+  const { output } = sessionManager.getOutput(size);
+  return output || undefined;
+}
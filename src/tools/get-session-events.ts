@@ -0,0 +1,46 @@
+/**
+ * get_session_events Tool Handler
+ *
+ * Returns notifications XDebug sent while the script ran, such as PHP
+ * notices raised without a pause.
+ */
+
+import { z } from 'zod';
+import type { DebugSessionManager } from '../debug/session-manager.js';
+
+const GetSessionEventsSchema = z.object({
+  type: z.enum(['php_error', 'breakpoint_resolved']).optional(),
+  limit: z.number().int().min(1).max(500).optional().default(50),
+});
+
+export async function handleGetSessionEvents(
+  args: Record<string, unknown>,
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const parsed = GetSessionEventsSchema.parse(args);
+
+  const events = sessionManager.getSessionEvents(parsed.type, parsed.limit);
+
+  if (events.length === 0) {
+    return {
+      count: 0,
+      events: [],
+      message: parsed.type ? `No ${parsed.type} events recorded.` : 'No events recorded.',
+      hint: 'Events require XDebug 3.1+. Use error_levels in start_debug_session to pause on PHP errors instead.',
+    };
+  }
+
+  return {
+    count: events.length,
+    events: events.map((event) => ({
+      type: event.type,
+      step: event.stepNumber,
+      level: event.level,
+      message: event.message,
+      location: event.location ? `${event.location.file}:${event.location.line}` : undefined,
+      breakpoint_id: event.breakpointId,
+      timestamp: event.timestamp,
+    })),
+    message: `${events.length} most recent event(s)`,
+  };
+}
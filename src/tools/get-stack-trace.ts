@@ -0,0 +1,35 @@
+/**
+ * get_stack_trace Tool Handler
+ */
+
+import { z } from 'zod';
+import type { DebugSessionManager } from '../debug/session-manager.js';
+
+const GetStackTraceSchema = z.object({
+  max_frames: z.number().int().min(1).max(100).optional().default(20),
+});
+
+export async function handleGetStackTrace(
+  args: Record<string, unknown>,
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const parsed = GetStackTraceSchema.parse(args);
+
+  const frames = await sessionManager.getStackTrace(parsed.max_frames);
+  const selected = sessionManager.getSession()?.selectedFrame ?? 0;
+
+  return {
+    depth: frames.length,
+    selected_frame: selected,
+    frames: frames.map((frame) => ({
+      level: frame.level,
+      file: frame.file,
+      line: frame.line,
+      function: frame.function,
+      code_snippet: frame.codeSnippet,
+    })),
+    hint: frames.length > 1
+      ? "Use 'select_frame' with a level to inspect variables in that caller's scope."
+      : undefined,
+  };
+}
@@ -3,6 +3,7 @@
  */
 
 import type { DebugSessionManager } from '../debug/session-manager.js';
+import type { BreakpointConfig } from '../types/index.js';
 import { getConfig } from '../config.js';
 
 export async function handleGetSessionStatus(
@@ -28,6 +29,19 @@ export async function handleGetSessionStatus(
 
   const breakpointCount = session.breakpoints.size;
   const breakpointList = Array.from(session.breakpoints.entries()).map(([key, bp]) => {
+    if (bp.type && bp.type !== 'line') {
+      return {
+        type: bp.type,
+        function: bp.function,
+        exception: bp.exception,
+        expression: bp.expression,
+        condition: bp.condition,
+        id: bp.id,
+        enabled: bp.enabled !== false,
+        ...hitInfo(bp),
+      };
+    }
+
     // key is "localFile:line", bp.file is remote path
     const localFile = key.split(':')[0] ?? key;
     return {
@@ -35,6 +49,9 @@ export async function handleGetSessionStatus(
       remotePath: bp.file,
       line: bp.line,
       condition: bp.condition,
+      id: bp.id,
+      enabled: bp.enabled !== false,
+      ...hitInfo(bp),
     };
   });
 
@@ -51,21 +68,37 @@ export async function handleGetSessionStatus(
     } : undefined,
     code_snippet: session.codeSnippet,
     pause_reason: session.pauseReason,
+    exception: session.status === 'paused' ? session.exception : undefined,
+    php_error: session.status === 'paused' ? session.phpError : undefined,
+    selected_frame: session.status === 'paused' ? session.selectedFrame ?? 0 : undefined,
     breakpoints: {
       count: breakpointCount,
       list: breakpointList,
     },
     config: configInfo,
-    available_actions: getAvailableActions(session.status),
+    available_actions: getAvailableActions(
+      session.status,
+      sessionManager.acceptsCommandsWhileRunning()
+    ),
+  };
+}
+
+function hitInfo(bp: BreakpointConfig): Record<string, unknown> {
+  return {
+    hits: bp.hits ?? 0,
+    hit_value: bp.hitValue,
+    hit_condition: bp.hitCondition,
+    temporary: bp.temporary,
   };
 }
 
-function getAvailableActions(status: string): string[] {
+function getAvailableActions(status: string, acceptsCommandsWhileRunning: boolean): string[] {
   switch (status) {
     case 'paused':
-      return ['step_over', 'step_into', 'step_out', 'continue', 'stop', 'inspect_variable'];
+      return ['step_over', 'step_into', 'step_out', 'continue', 'run_to_line', 'step_until', 'step_into_target', 'detach', 'stop', 'inspect_variable'];
     case 'running':
-      return ['stop'];
+      // Without async support only stop (closing the socket) works
+      return acceptsCommandsWhileRunning ? ['pause', 'detach', 'stop'] : ['stop'];
     case 'listening':
     case 'connected':
       return ['stop'];
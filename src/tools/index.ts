@@ -10,6 +10,18 @@ import { handleInspectVariable } from './inspect-variable.js';
 import { handleControlExecution } from './control-execution.js';
 import { handleGetSessionStatus } from './get-status.js';
 import { handleQueryHistory } from './query-history.js';
+import { handleListBreakpoints } from './list-breakpoints.js';
+import { handleToggleBreakpoint } from './toggle-breakpoint.js';
+import { handleSetVariable } from './set-variable.js';
+import { handleGetStackTrace } from './get-stack-trace.js';
+import { handleSelectFrame } from './select-frame.js';
+import { handleListVariables } from './list-variables.js';
+import { handleEvaluateExpression } from './evaluate-expression.js';
+import { handleGetLogMessages } from './get-log-messages.js';
+import { handleGetSessionEvents } from './get-session-events.js';
+import { handleGetOutput } from './get-output.js';
+import { handleAddWatch } from './add-watch.js';
+import { handleRemoveWatch } from './remove-watch.js';
 
 export const tools: Tool[] = [
   {
@@ -29,47 +41,162 @@ Returns session status and location when paused.`,
           type: 'string',
           description: "The command to trigger PHP execution (e.g., 'curl http://localhost/api/users' or 'php artisan test --filter=UserTest')",
         },
+        strategy: {
+          type: 'string',
+          description: "Preset bundling the settings below: 'standard' (breakpoints only), 'panic' (pause on exceptions and warnings outside vendor/, auto_snapshot on) or 'profile' (pause at the first line of app code, just_my_code on). Custom presets can be defined in the server config. Explicit parameters override the preset.",
+          default: 'standard',
+        },
         stop_on_entry: {
           type: 'boolean',
           description: 'If true, pauses at the very first line of execution. Use for scripts with unknown flow.',
-          default: false,
+        },
+        entry_mode: {
+          type: 'string',
+          enum: ['first_line', 'app_code'],
+          description: "Where stop_on_entry pauses. 'app_code' steps through framework bootstrap (public/index.php, artisan) to the first line inside the application directories (default app/, src/).",
         },
         stop_on_exception: {
           type: 'boolean',
           description: 'If true, pauses automatically when an Error or Exception is thrown. Recommended for debugging crashes.',
-          default: false,
+        },
+        exception_include: {
+          type: 'array',
+          items: { type: 'string' },
+          description: "Only pause on these exception classes (and subclasses), e.g. ['App\\Exceptions\\PaymentFailed']. Implies stop_on_exception.",
+        },
+        exception_exclude: {
+          type: 'array',
+          items: { type: 'string' },
+          description: "Continue past these exception classes, e.g. ['NotFoundHttpException']. Short names match any namespace, and subclasses are excluded too.",
+        },
+        skip_vendor_exceptions: {
+          type: 'boolean',
+          description: 'Continue past exceptions (and PHP errors) raised from files matching the skip globs (default vendor/**; framework-internal exceptions that are usually caught). Exception breakpoints set with set_breakpoint still pause.',
+        },
+        error_levels: {
+          type: 'array',
+          items: { type: 'string', enum: ['Warning', 'Notice', 'Deprecated'] },
+          description: "Pause on PHP errors of these levels (e.g. an 'Undefined array key' Warning). Pauses report pause_reason 'php_error' with the message.",
         },
         working_directory: {
           type: 'string',
           description: 'Working directory for the trigger command. Defaults to project root.',
         },
+        auto_snapshot: {
+          type: 'boolean',
+          description: 'Record all locals at every pause so query_history can answer for any variable in scope. Unchanged values are deduplicated. Defaults to the server config (off).',
+        },
+        just_my_code: {
+          type: 'boolean',
+          description: 'Step past framework code: steps that land in files matching the skip globs (default vendor/**) keep stepping until they reach your code. Breakpoints in vendor files still pause.',
+        },
       },
       required: ['command'],
     },
   },
   {
     name: 'set_breakpoint',
-    description: `Sets a breakpoint at a specific file and line. Use BEFORE starting a debug session.
+    description: `Sets a breakpoint. Use BEFORE starting a debug session.
+
+Types:
+- line (default): break at 'file' and 'line'
+- call: break on entry to 'function' (e.g., 'App\\Services\\OrderService::process')
+- return: break when 'function' returns
+- exception: break when 'exception' class is thrown ('*' for any)
+- watch: break when 'expression' changes (engine support varies)
 
 Path translation is automatic - use local paths relative to project root.
 Conditional breakpoints are HIGHLY RECOMMENDED for loops to avoid stepping through thousands of iterations.`,
     inputSchema: {
       type: 'object',
       properties: {
+        type: {
+          type: 'string',
+          enum: ['line', 'call', 'return', 'exception', 'watch'],
+          description: 'Breakpoint type',
+          default: 'line',
+        },
         file: {
           type: 'string',
-          description: 'Local file path relative to project root (e.g., "app/Http/Controllers/UserController.php")',
+          description: 'Local file path relative to project root (e.g., "app/Http/Controllers/UserController.php"). Required for line breakpoints.',
         },
         line: {
           type: 'integer',
-          description: 'Line number to break at',
+          description: 'Line number to break at. Required for line breakpoints.',
+        },
+        function: {
+          type: 'string',
+          description: "Function or 'Class::method' name. Required for call/return breakpoints.",
+        },
+        exception: {
+          type: 'string',
+          description: "Exception class name (e.g., 'App\\Exceptions\\PaymentFailed'), or '*' for any. Required for exception breakpoints.",
+        },
+        expression: {
+          type: 'string',
+          description: 'PHP expression to watch. Required for watch breakpoints.',
         },
         condition: {
           type: 'string',
           description: "Optional PHP expression. Break only if true (e.g., '$user->id === 5' or '$i > 100')",
         },
+        hit_count: {
+          type: 'integer',
+          description: 'Break based on how many times the breakpoint was reached (e.g., 500 with hit_condition "==" breaks on the 500th iteration only)',
+        },
+        hit_condition: {
+          type: 'string',
+          enum: ['>=', '==', '%'],
+          description: "How the hit count is compared to hit_count: '>=' (from the Nth hit on, default), '==' (Nth hit only), '%' (every Nth hit)",
+        },
+        temporary: {
+          type: 'boolean',
+          description: 'If true, the breakpoint is removed after it is hit once',
+          default: false,
+        },
+        log_message: {
+          type: 'string',
+          description: "Turns the breakpoint into a logpoint: instead of pausing, render this template and continue. Placeholders use PHP syntax, e.g. 'order {$order->id} total={$total}'. Read output with get_log_messages.",
+        },
       },
-      required: ['file', 'line'],
+    },
+  },
+  {
+    name: 'list_breakpoints',
+    description: `Lists breakpoints as XDebug sees them: ID, state (enabled/disabled), hit count, and whether XDebug resolved them to an executable line.
+
+Before a session connects, only the stored breakpoints are listed (not yet registered with XDebug).`,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'toggle_breakpoint',
+    description: `Enables or disables a breakpoint without removing it. The breakpoint keeps its ID and hit count.
+
+Identify the breakpoint by 'id' (from list_breakpoints or set_breakpoint) or by 'file' and 'line'.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'integer',
+          description: 'XDebug breakpoint ID',
+        },
+        file: {
+          type: 'string',
+          description: 'Local file path, as passed to set_breakpoint',
+        },
+        line: {
+          type: 'integer',
+          description: 'Line number, as passed to set_breakpoint',
+        },
+        enabled: {
+          type: 'boolean',
+          description: 'true to enable, false to disable',
+        },
+      },
+      required: ['enabled'],
     },
   },
   {
@@ -103,6 +230,165 @@ Without a filter, returns only structure summary (keys/types, no values).`,
       required: ['name'],
     },
   },
+  {
+    name: 'get_stack_trace',
+    description: `Returns the call stack while paused: every frame with its local file, line, function and a short code snippet.
+
+Use this to answer "who called this?" instead of stepping out repeatedly. Then use 'select_frame' to inspect variables in a caller's frame.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        max_frames: {
+          type: 'integer',
+          description: 'Maximum number of frames to return (innermost first)',
+          default: 20,
+          minimum: 1,
+          maximum: 100,
+        },
+      },
+    },
+  },
+  {
+    name: 'select_frame',
+    description: `Selects the stack frame that 'inspect_variable' and 'set_variable' operate on. Level 0 is the current frame; higher levels are callers (see 'get_stack_trace').
+
+The selection resets to frame 0 whenever execution pauses again.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        level: {
+          type: 'integer',
+          description: 'Stack level to select (0 = current frame)',
+          minimum: 0,
+        },
+      },
+      required: ['level'],
+    },
+  },
+  {
+    name: 'set_variable',
+    description: `Changes a variable's value while paused, to test a hypothesis without restarting the request (e.g., "what if $discount were 0?").
+
+Supports scalars, array elements and object properties by full name:
+- set_variable("$discount", "0")
+- set_variable("$order->status", "'paid'")
+- set_variable("$items[0]['qty']", "5")
+
+The value is a PHP expression unless 'type' is given. Changes are recorded in the session summary.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: "Variable full name (e.g., '$discount', '$order->status', '$items[0]')",
+        },
+        value: {
+          type: 'string',
+          description: "New value as a PHP expression (e.g., '0', \"'paid'\", 'null', '[1, 2]')",
+        },
+        type: {
+          type: 'string',
+          enum: ['bool', 'int', 'float', 'string'],
+          description: 'Optional: set the value as this PHP type instead of evaluating it as an expression',
+        },
+        stack_depth: {
+          type: 'integer',
+          description: "Stack frame to modify (0 = current frame). Defaults to the frame chosen with 'select_frame'.",
+          minimum: 0,
+        },
+      },
+      required: ['name', 'value'],
+    },
+  },
+  {
+    name: 'evaluate_expression',
+    description: `Evaluates a PHP expression in the paused frame and returns the result. Use this for questions like "what does $user->isAdmin() return here?"
+
+Results follow the same rules as inspect_variable: scalars are returned directly, objects/arrays as a structure summary unless a JSONPath 'filter' is given.
+
+SAFETY: Expressions that look side-effecting (assignments, exit, unlink, DB writes, ->save(), ...) are rejected unless allow_side_effects is true. Use set_variable to change values deliberately.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        expression: {
+          type: 'string',
+          description: "PHP expression (e.g., '$user->isAdmin()', 'count($items)', '$order->total * 1.2')",
+        },
+        filter: {
+          type: 'string',
+          description: "JSONPath query to filter the result (e.g., '$.email'). Omit for structure-only view.",
+        },
+        depth: {
+          type: 'integer',
+          description: 'Recursion depth for nested results. Default 1, max 3.',
+          default: 1,
+          minimum: 1,
+          maximum: 3,
+        },
+        allow_side_effects: {
+          type: 'boolean',
+          description: 'Evaluate even if the expression looks side-effecting. The effect is real and cannot be undone.',
+          default: false,
+        },
+      },
+      required: ['expression'],
+    },
+  },
+  {
+    name: 'add_watch',
+    description: `Watches a PHP expression. It is evaluated at every pause, recorded for query_history, and shown in the 'watches' field of start_debug_session/control_execution responses.
+
+Can be called before or during a session. Side-effecting expressions are rejected.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        expression: {
+          type: 'string',
+          description: "PHP expression to watch (e.g., '$total', 'count($items)', '$order->status')",
+        },
+      },
+      required: ['expression'],
+    },
+  },
+  {
+    name: 'remove_watch',
+    description: 'Stops watching an expression previously added with add_watch.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        expression: {
+          type: 'string',
+          description: 'The expression exactly as passed to add_watch',
+        },
+      },
+      required: ['expression'],
+    },
+  },
+  {
+    name: 'list_variables',
+    description: `Lists variables in scope for the selected frame: locals, superglobals ($_SERVER, $_POST, ...) and user-defined constants.
+
+Without a filter, returns names and types only (cheap). Use a JSONPath filter to read values:
+- list_variables(context: "constants", filter: "$.constants.APP_ENV")
+- list_variables(context: "superglobals", filter: "$.superglobals._SERVER.REQUEST_METHOD")
+
+Use this instead of guessing variable names for 'inspect_variable'.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        context: {
+          type: 'string',
+          enum: ['all', 'locals', 'superglobals', 'constants'],
+          description: 'Which context to list',
+          default: 'all',
+        },
+        filter: {
+          type: 'string',
+          description: "JSONPath query over {locals, superglobals, constants} with '$' stripped from variable names (e.g., '$.locals.order.status')",
+        },
+      },
+    },
+  },
   {
     name: 'control_execution',
     description: `Controls debugger execution flow.
@@ -110,17 +396,62 @@ Without a filter, returns only structure summary (keys/types, no values).`,
 Actions:
 - step_over: Execute current line, pause at next line (skip function internals)
 - step_into: Step into function call on current line
-- step_out: Run until current function returns
+- step_out: Run until current function returns. On XDebug 3.3+ the response includes 'return_value' (also recorded in query_history under the function name)
 - continue: Run until next breakpoint or exception
-- stop: Terminate debug session`,
+- run_to_line: Run until 'file':'line' is reached (or anything else pauses first). Uses a temporary breakpoint that is not added to the breakpoint list
+- step_into_target: Step directly into the call named by 'target' on the current line (e.g. 'apply' or 'TaxCalculator::apply'), skipping other calls. Steps over the line if the target isn't called
+- pause: Interrupt a running script (e.g. an infinite loop) where it is. Requires XDebug async support
+- step_until: Repeat 'step_mode' until 'until_expression' is true, 'until_file' or 'until_function' is entered, or 'max_steps' is used up. At least one until_* criterion is required. Returns steps taken and the path traversed
+- detach: Stop debugging but let the script finish normally (e.g. so a request isn't left half-written). Returns the trigger's exit code and output. While the script runs, needs XDebug async support (see get_session_status available_actions)
+- stop: Terminate debug session (kills the PHP request)
+
+After a pause in a frame seen before, 'changes' lists locals added, removed or modified since the previous pause (old → new).`,
     inputSchema: {
       type: 'object',
       properties: {
         action: {
           type: 'string',
-          enum: ['step_over', 'step_into', 'step_out', 'continue', 'stop'],
+          enum: ['step_over', 'step_into', 'step_out', 'continue', 'run_to_line', 'step_until', 'step_into_target', 'pause', 'detach', 'stop'],
           description: 'The execution control action to perform',
         },
+        file: {
+          type: 'string',
+          description: 'Target file for run_to_line. Defaults to the current file.',
+        },
+        line: {
+          type: 'integer',
+          description: 'Target line for run_to_line (required for that action)',
+          minimum: 1,
+        },
+        step_mode: {
+          type: 'string',
+          enum: ['step_over', 'step_into'],
+          description: 'Step command repeated by step_until. Default step_over.',
+          default: 'step_over',
+        },
+        until_expression: {
+          type: 'string',
+          description: "step_until: stop when this PHP expression is truthy (e.g., '$i === 42')",
+        },
+        until_file: {
+          type: 'string',
+          description: 'step_until: stop when execution enters this file',
+        },
+        until_function: {
+          type: 'string',
+          description: "step_until: stop when execution enters this function (e.g., 'OrderService::calculate')",
+        },
+        target: {
+          type: 'string',
+          description: "step_into_target: callee to enter, e.g. 'apply' for $this->tax->apply(...). Add the class ('TaxCalculator::apply') to pick one of several same-named methods",
+        },
+        max_steps: {
+          type: 'integer',
+          description: 'step_until: step budget. Default 50, max 500.',
+          default: 50,
+          minimum: 1,
+          maximum: 500,
+        },
       },
       required: ['action'],
     },
@@ -160,6 +491,61 @@ Example: "What was $status 3 steps ago?"`,
       required: ['variable_name'],
     },
   },
+  {
+    name: 'get_log_messages',
+    description: 'Returns messages rendered by logpoints (breakpoints with log_message) in the current session, oldest first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'integer',
+          description: 'Return only the most recent N messages. Default 50, max 500.',
+          default: 50,
+          minimum: 1,
+          maximum: 500,
+        },
+      },
+    },
+  },
+  {
+    name: 'get_session_events',
+    description: `Returns notifications XDebug sent while the script ran, oldest first:
+- php_error: warnings, notices and deprecations raised without pausing
+- breakpoint_resolved: a breakpoint was bound to an executable line`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: {
+          type: 'string',
+          enum: ['php_error', 'breakpoint_resolved'],
+          description: 'Only return events of this type',
+        },
+        limit: {
+          type: 'integer',
+          description: 'Return only the most recent N events. Default 50, max 500.',
+          default: 50,
+          minimum: 1,
+          maximum: 500,
+        },
+      },
+    },
+  },
+  {
+    name: 'get_output',
+    description: `Returns what the PHP script has echoed so far (stdout/stderr), captured through XDebug. Works for web requests served by PHP-FPM, whose output never reaches the trigger command.
+
+Pause responses already include the last few hundred characters as 'output_tail'.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tail: {
+          type: 'integer',
+          description: 'Return only the last N characters. Omit for the whole buffer.',
+          minimum: 1,
+        },
+      },
+    },
+  },
 ];
 
 export async function handleToolCall(
@@ -180,6 +566,30 @@ export async function handleToolCall(
       return handleGetSessionStatus(sessionManager);
     case 'query_history':
       return handleQueryHistory(args, sessionManager);
+    case 'list_breakpoints':
+      return handleListBreakpoints(sessionManager);
+    case 'toggle_breakpoint':
+      return handleToggleBreakpoint(args, sessionManager);
+    case 'set_variable':
+      return handleSetVariable(args, sessionManager);
+    case 'get_stack_trace':
+      return handleGetStackTrace(args, sessionManager);
+    case 'select_frame':
+      return handleSelectFrame(args, sessionManager);
+    case 'list_variables':
+      return handleListVariables(args, sessionManager);
+    case 'evaluate_expression':
+      return handleEvaluateExpression(args, sessionManager);
+    case 'get_log_messages':
+      return handleGetLogMessages(args, sessionManager);
+    case 'get_session_events':
+      return handleGetSessionEvents(args, sessionManager);
+    case 'get_output':
+      return handleGetOutput(args, sessionManager);
+    case 'add_watch':
+      return handleAddWatch(args, sessionManager);
+    case 'remove_watch':
+      return handleRemoveWatch(args, sessionManager);
     default:
       throw new Error(`Unknown tool: ${name}`);
   }
@@ -33,25 +33,38 @@ export async function handleInspectVariable(
   if (!variable) {
     return {
       error: `Variable '${parsed.name}' not found in current scope`,
-      hint: "Check the variable name. Use '$this' for object context, '$_REQUEST' for request data.",
+      hint: "Check the variable name. Use 'list_variables' to see locals, superglobals and constants in scope.",
     };
   }
 
+  return {
+    variable: parsed.name,
+    ...presentVariable(variable, parsed.filter),
+  };
+}
+
+/**
+ * Present a variable through the JSONPath filter, or as a structure summary
+ * when no filter is given (REQ-5, REQ-6)
+ */
+export function presentVariable(
+  variable: VariableInfo,
+  filter?: string
+): Record<string, unknown> {
   // Convert to JSON-friendly format
   const jsonValue = variableToJson(variable);
 
   // Apply JSONPath filter if provided
-  if (parsed.filter) {
+  if (filter) {
     try {
       const filtered = JSONPath({
-        path: parsed.filter,
+        path: filter,
         json: jsonValue as object,
         wrap: false,
       });
 
       return {
-        variable: parsed.name,
-        filter: parsed.filter,
+        filter,
         type: variable.type,
         value: filtered,
         truncated: false,
@@ -60,8 +73,7 @@ export async function handleInspectVariable(
       // Invalid JSONPath - return structure with available keys
       const keys = extractKeys(jsonValue);
       return {
-        error: `Invalid JSONPath filter: ${parsed.filter}`,
-        variable: parsed.name,
+        error: `Invalid JSONPath filter: ${filter}`,
         type: variable.type,
         available_keys: keys,
         hint: `Try one of: ${keys.slice(0, 5).map(k => `'$.${k}'`).join(', ')}`,
@@ -73,7 +85,6 @@ export async function handleInspectVariable(
   const structure = summarizeStructure(variable);
 
   return {
-    variable: parsed.name,
     type: variable.type,
     classname: variable.classname,
     structure,
@@ -83,10 +94,14 @@ export async function handleInspectVariable(
   };
 }
 
-function variableToJson(variable: VariableInfo): unknown {
+/**
+ * Convert a DBGp property tree to plain JSON for JSONPath filtering
+ */
+export function variableToJson(variable: VariableInfo): unknown {
   if (variable.children && variable.children.length > 0) {
-    // Array or object
-    if (variable.type === 'array') {
+    // List-like array, or associative array/object
+    const isList = variable.children.every((child, i) => child.name === String(i));
+    if (variable.type === 'array' && isList) {
       return variable.children.map((child) => variableToJson(child));
     } else {
       const obj: Record<string, unknown> = {};
@@ -100,7 +115,10 @@ function variableToJson(variable: VariableInfo): unknown {
   return variable.value;
 }
 
-function summarizeStructure(variable: VariableInfo): {
+/**
+ * Summarize a variable as type, keys and a short preview (no full values)
+ */
+export function summarizeStructure(variable: VariableInfo): {
   type: string;
   classname?: string;
   keys?: string[];
@@ -0,0 +1,64 @@
+/**
+ * list_breakpoints Tool Handler
+ */
+
+import type { DebugSessionManager } from '../debug/session-manager.js';
+import type { BreakpointEntry } from '../types/index.js';
+
+export async function handleListBreakpoints(
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const entries = await sessionManager.listBreakpoints();
+
+  if (entries.length === 0) {
+    return {
+      count: 0,
+      breakpoints: [],
+      message: 'No breakpoints set.',
+      hint: "Use 'set_breakpoint' to add a breakpoint.",
+    };
+  }
+
+  const registered = entries.some((entry) => entry.info !== undefined);
+
+  return {
+    count: entries.length,
+    breakpoints: entries.map(formatBreakpointEntry),
+    message: `${entries.length} breakpoint(s)`,
+    hint: registered
+      ? "Use 'toggle_breakpoint' with an id to enable or disable a breakpoint without losing it."
+      : 'Breakpoints are registered with XDebug when the debug session connects.',
+  };
+}
+
+/**
+ * Format a breakpoint entry for tool output
+ */
+export function formatBreakpointEntry(entry: BreakpointEntry): Record<string, unknown> {
+  const { key, config, info } = entry;
+  const type = config?.type ?? info?.type ?? 'line';
+
+  // For line breakpoints key is "localFile:line", config.file is remote path
+  const localFile = key && config?.file ? key.slice(0, key.lastIndexOf(':')) : info?.filename;
+
+  return {
+    id: info?.id ?? config?.id,
+    type,
+    file: localFile,
+    line: config?.line ?? info?.lineno,
+    remotePath: config?.file,
+    function: config?.function ?? info?.function,
+    exception: config?.exception ?? info?.exception,
+    expression: config?.expression,
+    condition: config?.condition ?? (type === 'watch' ? undefined : info?.expression),
+    log_message: config?.logMessage,
+    state: info?.state ?? (config?.enabled === false ? 'disabled' : 'enabled'),
+    hit_count: info?.hitCount,
+    hit_value: config?.hitValue ?? (info?.hitValue || undefined),
+    hit_condition: config?.hitCondition ?? info?.hitCondition,
+    temporary: config?.temporary ?? info?.temporary,
+    hits: config ? config.hits ?? 0 : undefined,
+    resolved: info?.resolved,
+    registered: info !== undefined,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * list_variables Tool Handler
+ *
+ * Lists locals, superglobals and user-defined constants for the selected
+ * frame. Names and types only by default (REQ-6); values via JSONPath filter.
+ */
+
+import { z } from 'zod';
+import { JSONPath } from 'jsonpath-plus';
+import type { DebugSessionManager } from '../debug/session-manager.js';
+import type { VariableContext } from '../types/index.js';
+import { variableToJson } from './inspect-variable.js';
+
+/** DBGp context ids as reported by XDebug's context_names */
+const CONTEXT_IDS = {
+  locals: 0,
+  superglobals: 1,
+  constants: 2,
+} as const;
+
+const ListVariablesSchema = z.object({
+  context: z.enum(['all', 'locals', 'superglobals', 'constants']).optional().default('all'),
+  filter: z.string().optional(),
+});
+
+export async function handleListVariables(
+  args: Record<string, unknown>,
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const parsed = ListVariablesSchema.parse(args);
+
+  const contextIds = parsed.context === 'all'
+    ? undefined
+    : [CONTEXT_IDS[parsed.context]];
+
+  // Filters usually reach one level into a variable (e.g. $_SERVER.REQUEST_URI)
+  const contexts = await sessionManager.getContexts(contextIds, parsed.filter ? 2 : 1);
+
+  if (parsed.filter) {
+    const json = contextsToJson(contexts);
+    try {
+      const value = JSONPath({
+        path: parsed.filter,
+        json,
+        wrap: false,
+      });
+
+      return {
+        context: parsed.context,
+        filter: parsed.filter,
+        value,
+      };
+    } catch {
+      return {
+        error: `Invalid JSONPath filter: ${parsed.filter}`,
+        context: parsed.context,
+        hint: "Filter paths start with the context, e.g. '$.locals.order', '$.superglobals._SERVER.REQUEST_URI', '$.constants.APP_ENV'",
+      };
+    }
+  }
+
+  const listing: Record<string, unknown> = {};
+  for (const context of contexts) {
+    listing[contextKey(context)] = context.variables.map((v) => ({
+      name: v.name,
+      type: v.type,
+      classname: v.classname,
+      children_count: v.numchildren,
+    }));
+  }
+
+  return {
+    context: parsed.context,
+    contexts: listing,
+    hint: "Use 'filter' to read values (e.g., '$.constants.APP_ENV', '$.superglobals._POST'), or 'inspect_variable' for a single variable.",
+  };
+}
+
+function contextKey(context: VariableContext): string {
+  const entry = Object.entries(CONTEXT_IDS).find(([, id]) => id === context.id);
+  return entry ? entry[0] : context.name.toLowerCase().replace(/\s+/g, '_');
+}
+
+function contextsToJson(contexts: VariableContext[]): Record<string, unknown> {
+  const json: Record<string, unknown> = {};
+
+  for (const context of contexts) {
+    const variables: Record<string, unknown> = {};
+    for (const variable of context.variables) {
+      // Strip the '$' so filters read naturally: $.locals.order.id
+      variables[variable.name.replace(/^\$/, '')] = variableToJson(variable);
+    }
+    json[contextKey(context)] = variables;
+  }
+
+  return json;
+}
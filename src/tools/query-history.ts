@@ -30,7 +30,7 @@ export async function handleQueryHistory(
       variable: parsed.variable_name,
       history: [],
       message: `No recorded history for '${parsed.variable_name}'. The variable may not have been inspected yet.`,
-      hint: "Variables are recorded when you use 'inspect_variable'. Only previously inspected values are available in history.",
+      hint: "Variables are recorded when you use 'inspect_variable', watch them with 'add_watch', or start the session with auto_snapshot: true. Only previously recorded values are available in history.",
     };
   }
 
@@ -0,0 +1,36 @@
+/**
+ * remove_watch Tool Handler
+ */
+
+import { z } from 'zod';
+import type { DebugSessionManager } from '../debug/session-manager.js';
+
+const RemoveWatchSchema = z.object({
+  expression: z.string().min(1, 'Expression is required'),
+});
+
+export async function handleRemoveWatch(
+  args: Record<string, unknown>,
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const parsed = RemoveWatchSchema.parse(args);
+
+  const removed = sessionManager.removeWatch(parsed.expression);
+
+  if (!removed) {
+    return {
+      success: false,
+      expression: parsed.expression,
+      watches: sessionManager.getWatches(),
+      message: `'${parsed.expression}' is not being watched.`,
+      hint: 'Pass the expression exactly as it was given to add_watch.',
+    };
+  }
+
+  return {
+    success: true,
+    expression: parsed.expression,
+    watches: sessionManager.getWatches(),
+    message: `Stopped watching ${parsed.expression}`,
+  };
+}
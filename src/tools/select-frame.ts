@@ -0,0 +1,31 @@
+/**
+ * select_frame Tool Handler
+ */
+
+import { z } from 'zod';
+import type { DebugSessionManager } from '../debug/session-manager.js';
+
+const SelectFrameSchema = z.object({
+  level: z.number().int().min(0, 'Level must be 0 or greater'),
+});
+
+export async function handleSelectFrame(
+  args: Record<string, unknown>,
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const parsed = SelectFrameSchema.parse(args);
+
+  const frame = await sessionManager.selectFrame(parsed.level);
+
+  return {
+    selected_frame: frame.level,
+    location: {
+      file: frame.file,
+      line: frame.line,
+      function: frame.function,
+    },
+    code_snippet: frame.codeSnippet,
+    message: `Selected frame ${frame.level}: ${frame.function ?? '(main)'} at ${frame.file}:${frame.line}`,
+    hint: "'inspect_variable' now reads variables from this frame until execution moves on.",
+  };
+}
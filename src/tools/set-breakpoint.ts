@@ -6,13 +6,49 @@ import { existsSync } from 'fs';
 import { resolve } from 'path';
 import { z } from 'zod';
 import type { DebugSessionManager } from '../debug/session-manager.js';
+import type { BreakpointConfig } from '../types/index.js';
 import { getConfig } from '../config.js';
 
-const SetBreakpointSchema = z.object({
-  file: z.string().min(1, 'File path is required'),
-  line: z.number().int().positive('Line must be a positive integer'),
-  condition: z.string().optional(),
-});
+const SetBreakpointSchema = z
+  .object({
+    type: z.enum(['line', 'call', 'return', 'exception', 'watch']).optional().default('line'),
+    file: z.string().min(1, 'File path is required').optional(),
+    line: z.number().int().positive('Line must be a positive integer').optional(),
+    function: z.string().min(1).optional(),
+    exception: z.string().min(1).optional(),
+    expression: z.string().min(1).optional(),
+    condition: z.string().optional(),
+    hit_count: z.number().int().positive('hit_count must be a positive integer').optional(),
+    hit_condition: z.enum(['>=', '==', '%']).optional(),
+    temporary: z.boolean().optional(),
+    log_message: z.string().min(1).optional(),
+  })
+  .superRefine((args, ctx) => {
+    if (args.hit_condition && args.hit_count === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['hit_count'],
+        message: "'hit_count' is required when 'hit_condition' is set",
+      });
+    }
+
+    const required: Record<typeof args.type, Array<keyof typeof args>> = {
+      line: ['file', 'line'],
+      call: ['function'],
+      return: ['function'],
+      exception: ['exception'],
+      watch: ['expression'],
+    };
+    for (const field of required[args.type]) {
+      if (args[field] === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: `'${field}' is required for ${args.type} breakpoints`,
+        });
+      }
+    }
+  });
 
 export async function handleSetBreakpoint(
   args: Record<string, unknown>,
@@ -20,15 +56,24 @@ export async function handleSetBreakpoint(
 ): Promise<unknown> {
   const parsed = SetBreakpointSchema.parse(args);
 
+  if (parsed.type !== 'line') {
+    return setNonLineBreakpoint(parsed, sessionManager);
+  }
+
+  const file = parsed.file!;
+  const line = parsed.line!;
+
   // Check if local file exists (helpful warning for path issues)
   const projectRoot = getConfig().projectRoot ?? process.cwd();
-  const absolutePath = resolve(projectRoot, parsed.file);
+  const absolutePath = resolve(projectRoot, file);
   const localFileExists = existsSync(absolutePath);
 
   const breakpoint = await sessionManager.setBreakpoint({
-    file: parsed.file,
-    line: parsed.line,
+    file,
+    line,
     condition: parsed.condition,
+    logMessage: parsed.log_message,
+    ...hitOptions(parsed),
   });
 
   const remotePathInfo = breakpoint.remotePath
@@ -46,15 +91,106 @@ export async function handleSetBreakpoint(
   return {
     success: true,
     breakpoint: {
+      id: breakpoint.id,
+      type: breakpoint.type,
       file: breakpoint.file,
       line: breakpoint.line,
       condition: breakpoint.condition,
+      log_message: breakpoint.logMessage,
+      ...formatHitOptions(breakpoint),
       remotePath: breakpoint.remotePath,
       localFileExists,
     },
-    message: breakpoint.condition
-      ? `Conditional breakpoint set at ${breakpoint.file}:${breakpoint.line}${remotePathInfo} (when: ${breakpoint.condition})${pathWarning}`
-      : `Breakpoint set at ${breakpoint.file}:${breakpoint.line}${remotePathInfo}${pathWarning}`,
-    hint: "Call 'start_debug_session' to begin debugging. The breakpoint will trigger when execution reaches this line.",
+    message: breakpoint.logMessage
+      ? `Logpoint set at ${breakpoint.file}:${breakpoint.line}${remotePathInfo}: "${breakpoint.logMessage}"${describeHitOptions(breakpoint)}${pathWarning}`
+      : breakpoint.condition
+      ? `Conditional breakpoint set at ${breakpoint.file}:${breakpoint.line}${remotePathInfo} (when: ${breakpoint.condition})${describeHitOptions(breakpoint)}${pathWarning}`
+      : `Breakpoint set at ${breakpoint.file}:${breakpoint.line}${remotePathInfo}${describeHitOptions(breakpoint)}${pathWarning}`,
+    hint: breakpoint.logMessage
+      ? "Logpoints don't pause execution. Read their output with 'get_log_messages'."
+      : "Call 'start_debug_session' to begin debugging. The breakpoint will trigger when execution reaches this line.",
+  };
+}
+
+async function setNonLineBreakpoint(
+  parsed: z.infer<typeof SetBreakpointSchema>,
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const config: BreakpointConfig = {
+    type: parsed.type,
+    function: parsed.function,
+    exception: parsed.exception,
+    expression: parsed.expression,
+    condition: parsed.condition,
+    logMessage: parsed.log_message,
+    ...hitOptions(parsed),
+  };
+
+  const breakpoint = await sessionManager.setBreakpoint(config);
+
+  const target: Record<string, string> = {
+    call: `on entry to ${breakpoint.function}`,
+    return: `on return from ${breakpoint.function}`,
+    exception: breakpoint.exception === '*'
+      ? 'on any exception'
+      : `on exception ${breakpoint.exception}`,
+    watch: `when ${breakpoint.expression} changes`,
+  };
+  const when = breakpoint.condition ? ` (when: ${breakpoint.condition})` : '';
+
+  return {
+    success: true,
+    breakpoint: {
+      id: breakpoint.id,
+      type: breakpoint.type,
+      function: breakpoint.function,
+      exception: breakpoint.exception,
+      expression: breakpoint.expression,
+      condition: breakpoint.condition,
+      log_message: breakpoint.logMessage,
+      ...formatHitOptions(breakpoint),
+    },
+    message: breakpoint.logMessage
+      ? `Logpoint set: log "${breakpoint.logMessage}" ${target[parsed.type]}${when}${describeHitOptions(breakpoint)}`
+      : `Breakpoint set: break ${target[parsed.type]}${when}${describeHitOptions(breakpoint)}`,
+    hint: parsed.type === 'watch'
+      ? 'Watch breakpoints depend on engine support; check list_breakpoints after the session connects.'
+      : "Call 'start_debug_session' to begin debugging.",
+  };
+}
+
+function hitOptions(
+  parsed: z.infer<typeof SetBreakpointSchema>
+): Pick<BreakpointConfig, 'hitValue' | 'hitCondition' | 'temporary'> {
+  return {
+    hitValue: parsed.hit_count,
+    hitCondition: parsed.hit_count !== undefined ? parsed.hit_condition ?? '>=' : undefined,
+    temporary: parsed.temporary,
   };
 }
+
+function formatHitOptions(breakpoint: BreakpointConfig): Record<string, unknown> {
+  return {
+    hit_count: breakpoint.hitValue,
+    hit_condition: breakpoint.hitCondition,
+    temporary: breakpoint.temporary,
+  };
+}
+
+function describeHitOptions(breakpoint: BreakpointConfig): string {
+  const parts: string[] = [];
+
+  if (breakpoint.hitValue !== undefined) {
+    const descriptions: Record<string, string> = {
+      '>=': `from hit ${breakpoint.hitValue} on`,
+      '==': `on hit ${breakpoint.hitValue} only`,
+      '%': `every ${breakpoint.hitValue} hits`,
+    };
+    parts.push(descriptions[breakpoint.hitCondition ?? '>=']!);
+  }
+  if (breakpoint.temporary) {
+    parts.push('removed after first hit');
+  }
+
+  return parts.length > 0 ? ` [${parts.join(', ')}]` : '';
+}
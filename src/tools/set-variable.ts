@@ -0,0 +1,40 @@
+/**
+ * set_variable Tool Handler
+ *
+ * Mutates state in the paused frame via DBGp property_set, so hypotheses
+ * can be tested without restarting the request.
+ */
+
+import { z } from 'zod';
+import type { DebugSessionManager } from '../debug/session-manager.js';
+import { summarizeStructure } from './inspect-variable.js';
+
+const SetVariableSchema = z.object({
+  name: z.string().min(1, 'Variable name is required'),
+  value: z.string(),
+  type: z.enum(['bool', 'int', 'float', 'string']).optional(),
+  stack_depth: z.number().int().min(0).optional(),
+});
+
+export async function handleSetVariable(
+  args: Record<string, unknown>,
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const parsed = SetVariableSchema.parse(args);
+
+  const variable = await sessionManager.setVariable(
+    parsed.name,
+    parsed.value,
+    parsed.type,
+    parsed.stack_depth
+  );
+
+  return {
+    success: true,
+    variable: parsed.name,
+    stack_depth: parsed.stack_depth ?? sessionManager.getSession()?.selectedFrame ?? 0,
+    new_value: variable ? summarizeStructure(variable) : undefined,
+    message: `Set ${parsed.name} = ${parsed.value}`,
+    hint: "The change is recorded in the session summary. Use 'control_execution' to continue with the new value.",
+  };
+}
@@ -4,12 +4,23 @@
 
 import { z } from 'zod';
 import type { DebugSessionManager } from '../debug/session-manager.js';
+import { formatWatchValues } from './add-watch.js';
+import { outputTail } from './get-output.js';
 
 const StartSessionSchema = z.object({
   command: z.string().min(1, 'Command is required'),
-  stop_on_entry: z.boolean().optional().default(false),
-  stop_on_exception: z.boolean().optional().default(false),
+  strategy: z.string().min(1).optional().default('standard'),
+  // Unset settings fall back to the strategy preset
+  stop_on_entry: z.boolean().optional(),
+  entry_mode: z.enum(['first_line', 'app_code']).optional(),
+  stop_on_exception: z.boolean().optional(),
+  exception_include: z.array(z.string().min(1)).optional(),
+  exception_exclude: z.array(z.string().min(1)).optional(),
+  skip_vendor_exceptions: z.boolean().optional(),
+  error_levels: z.array(z.enum(['Warning', 'Notice', 'Deprecated'])).optional(),
   working_directory: z.string().optional(),
+  auto_snapshot: z.boolean().optional(),
+  just_my_code: z.boolean().optional(),
 });
 
 export async function handleStartDebugSession(
@@ -20,14 +31,25 @@ export async function handleStartDebugSession(
 
   const session = await sessionManager.startSession({
     command: parsed.command,
+    strategy: parsed.strategy,
     stopOnEntry: parsed.stop_on_entry,
+    entryMode: parsed.entry_mode,
     stopOnException: parsed.stop_on_exception,
+    exceptionFilter: {
+      include: parsed.exception_include,
+      exclude: parsed.exception_exclude,
+      skipVendor: parsed.skip_vendor_exceptions,
+    },
+    errorLevels: parsed.error_levels,
     workingDirectory: parsed.working_directory,
+    autoSnapshot: parsed.auto_snapshot,
+    justMyCode: parsed.just_my_code,
   });
 
   return {
     status: session.status,
     session_id: session.id,
+    strategy: parsed.strategy,
     message: session.status === 'paused'
       ? `Debugger paused at ${session.location?.file}:${session.location?.line}`
       : `Debug session started. Status: ${session.status}`,
@@ -38,6 +60,13 @@ export async function handleStartDebugSession(
     } : undefined,
     code_snippet: session.codeSnippet,
     pause_reason: session.pauseReason,
+    skipped_frames: session.status === 'paused' && session.skippedFrames
+      ? session.skippedFrames
+      : undefined,
+    exception: session.status === 'paused' ? session.exception : undefined,
+    php_error: session.status === 'paused' ? session.phpError : undefined,
+    watches: formatWatchValues(session),
+    output_tail: outputTail(session, sessionManager),
     hint: session.status === 'paused'
       ? "Use 'inspect_variable' to examine state, or 'control_execution' to step/continue."
       : "Waiting for breakpoint hit or exception...",
@@ -0,0 +1,60 @@
+/**
+ * toggle_breakpoint Tool Handler
+ */
+
+import { z } from 'zod';
+import type { DebugSessionManager } from '../debug/session-manager.js';
+import { formatBreakpointEntry } from './list-breakpoints.js';
+
+const ToggleBreakpointSchema = z
+  .object({
+    id: z.number().int().positive().optional(),
+    file: z.string().min(1).optional(),
+    line: z.number().int().positive().optional(),
+    enabled: z.boolean(),
+  })
+  .refine(
+    (args) => args.id !== undefined || (args.file !== undefined && args.line !== undefined),
+    { message: 'Provide either id, or both file and line' }
+  );
+
+export async function handleToggleBreakpoint(
+  args: Record<string, unknown>,
+  sessionManager: DebugSessionManager
+): Promise<unknown> {
+  const parsed = ToggleBreakpointSchema.parse(args);
+
+  const entry = await sessionManager.setBreakpointEnabled(
+    { id: parsed.id, file: parsed.file, line: parsed.line },
+    parsed.enabled
+  );
+
+  const breakpoint = formatBreakpointEntry(entry);
+
+  return {
+    success: true,
+    breakpoint,
+    message: `Breakpoint ${describeBreakpoint(breakpoint)} ${parsed.enabled ? 'enabled' : 'disabled'}`,
+    hint: parsed.enabled
+      ? undefined
+      : "The breakpoint keeps its ID. Call 'toggle_breakpoint' with enabled: true to re-enable it.",
+  };
+}
+
+/**
+ * Short description of a formatted breakpoint: its location, or its type
+ * and target for call, return, exception and watch breakpoints
+ */
+function describeBreakpoint(breakpoint: Record<string, unknown>): string {
+  switch (breakpoint.type) {
+    case 'call':
+    case 'return':
+      return `${breakpoint.type} ${breakpoint.function}`;
+    case 'exception':
+      return `exception ${breakpoint.exception}`;
+    case 'watch':
+      return `watch ${breakpoint.expression}`;
+    default:
+      return `${breakpoint.file}:${breakpoint.line}`;
+  }
+}
@@ -30,12 +30,30 @@ export interface PathMapping {
  * Breakpoint configuration
  */
 export interface BreakpointConfig {
-  /** File path (local format) */
-  file: string;
-  /** Line number */
-  line: number;
+  /** Breakpoint type (default: 'line') */
+  type?: BreakpointType;
+  /** File path (local format) - line breakpoints */
+  file?: string;
+  /** Line number - line breakpoints */
+  line?: number;
+  /** Function or method name (e.g. 'App\\Services\\OrderService::process') - call/return breakpoints */
+  function?: string;
+  /** Exception class name ('*' for all) - exception breakpoints */
+  exception?: string;
+  /** Watched expression (PHP code) - watch breakpoints */
+  expression?: string;
   /** Optional conditional expression (PHP code) */
   condition?: string;
+  /** Hit count the hit condition compares against */
+  hitValue?: number;
+  /** How hits are compared against hitValue (default: '>=') */
+  hitCondition?: HitCondition;
+  /** Remove the breakpoint after its first hit */
+  temporary?: boolean;
+  /** Logpoint message template; when set, hits are logged and execution continues */
+  logMessage?: string;
+  /** Number of times execution paused on this breakpoint */
+  hits?: number;
   /** XDebug-assigned breakpoint ID (set after registration) */
   id?: number;
   /** Whether this breakpoint is enabled */
@@ -55,6 +73,68 @@ export type BreakpointType =
   | 'conditional'
   | 'watch';
 
+/**
+ * DBGp hit conditions: break when the hit count is >= the hit value,
+ * equal to it, or a multiple of it
+ */
+export type HitCondition = '>=' | '==' | '%';
+
+/**
+ * Breakpoint state as reported by XDebug (breakpoint_list / breakpoint_get)
+ */
+export interface BreakpointInfo {
+  /** XDebug-assigned breakpoint ID */
+  id: number;
+  /** Breakpoint type */
+  type: BreakpointType;
+  /** Whether XDebug will break on this breakpoint */
+  state: 'enabled' | 'disabled';
+  /** File path (remote format, as reported by XDebug) */
+  filename?: string;
+  /** Line number */
+  lineno?: number;
+  /** Function name (call/return breakpoints) */
+  function?: string;
+  /** Exception class name (exception breakpoints) */
+  exception?: string;
+  /** Conditional expression */
+  expression?: string;
+  /** Number of times the breakpoint has been hit */
+  hitCount: number;
+  /** Hit value for hit-count breakpoints */
+  hitValue?: number;
+  /** Hit condition for hit-count breakpoints */
+  hitCondition?: HitCondition;
+  /** Whether the breakpoint is removed after its first hit */
+  temporary?: boolean;
+  /** Whether XDebug resolved the breakpoint to an executable line */
+  resolved?: boolean;
+}
+
+/**
+ * A stored breakpoint joined with XDebug's view of it
+ */
+export interface BreakpointEntry {
+  /** Session storage key, absent for engine-only breakpoints */
+  key?: string;
+  /** Stored configuration, absent for engine-only breakpoints */
+  config?: BreakpointConfig;
+  /** XDebug's view, absent when not registered with XDebug */
+  info?: BreakpointInfo;
+}
+
+/**
+ * Reference to a stored breakpoint, either by XDebug ID or by location
+ */
+export interface BreakpointRef {
+  /** XDebug-assigned breakpoint ID */
+  id?: number;
+  /** File path (local format, as passed to set_breakpoint) */
+  file?: string;
+  /** Line number */
+  line?: number;
+}
+
 // ============================================================================
 // Debug Location
 // ============================================================================
@@ -77,22 +157,141 @@ export interface DebugLocation {
 // Session Configuration
 // ============================================================================
 
+/**
+ * Narrows which thrown exceptions pause execution
+ */
+export interface ExceptionFilter {
+  /** Only break on these classes (and subclasses); default: all */
+  include?: string[];
+  /** Continue past these classes */
+  exclude?: string[];
+  /** Continue when the throwing frame matches the config skipGlobs (vendor/**) */
+  skipVendor?: boolean;
+}
+
+/**
+ * PHP error levels XDebug can break on as pseudo-exceptions
+ */
+export type PhpErrorLevel = 'Warning' | 'Notice' | 'Deprecated';
+
+/**
+ * A PHP error execution paused on
+ */
+export interface PhpErrorInfo {
+  /** Pseudo-exception name reported by XDebug (e.g. 'Warning') */
+  level: string;
+  message: string;
+  /** PHP error code (E_WARNING = 2, ...) */
+  code?: string;
+}
+
+/**
+ * Something XDebug reported while the script ran, outside of pauses
+ */
+export interface SessionEvent {
+  type: 'php_error' | 'breakpoint_resolved';
+  /** ISO timestamp */
+  timestamp: string;
+  /** Step count when the event arrived */
+  stepNumber: number;
+  location?: DebugLocation;
+  /** Error level for php_error events (e.g. 'Warning') */
+  level?: string;
+  message: string;
+  /** Breakpoint ID for breakpoint_resolved events */
+  breakpointId?: number;
+}
+
+/**
+ * Script output captured through DBGp stream redirection
+ */
+export interface ScriptOutput {
+  /** Buffered output (most recent outputBufferSize characters) */
+  output: string;
+  /** Characters received in total */
+  totalLength: number;
+  /** Whether older output was dropped to stay within the buffer size */
+  truncated: boolean;
+}
+
+/**
+ * A function's return value captured after step_out (XDebug 3.3+)
+ */
+export interface ReturnValueInfo {
+  /** Function that returned */
+  function: string;
+  value: VariableInfo;
+}
+
+/**
+ * How the trigger command ended
+ */
+export interface TriggerResult {
+  /** Exit code, or null if it didn't exit (in time) or was killed by a signal */
+  exitCode: number | null;
+  signal?: string;
+  /** Combined stdout/stderr (most recent part if large) */
+  output: string;
+  /** Whether the process exited before we stopped waiting */
+  completed: boolean;
+}
+
+/**
+ * Where stop-on-entry pauses
+ */
+export type EntryMode =
+  | 'first_line'  // First line of the script (e.g. public/index.php)
+  | 'app_code';   // First line inside the configured application directories
+
+/**
+ * Session settings bundled under a strategy name (REQ-3)
+ *
+ * Explicit start_debug_session parameters override the preset.
+ */
+export interface StrategyPreset {
+  /** Shown in the start response */
+  description?: string;
+  stopOnEntry?: boolean;
+  entryMode?: EntryMode;
+  stopOnException?: boolean;
+  exceptionFilter?: ExceptionFilter;
+  errorLevels?: PhpErrorLevel[];
+  autoSnapshot?: boolean;
+  justMyCode?: boolean;
+  /** Idle time before the session is terminated, in milliseconds */
+  watchdogTimeout?: number;
+}
+
 /**
  * Configuration for starting a debug session
  */
 export interface DebugSessionConfig {
   /** Command to trigger PHP execution */
   command: string;
+  /** Strategy preset supplying defaults for the settings below */
+  strategy?: string;
   /** Pause at the first line of execution */
   stopOnEntry?: boolean;
+  /** Where stopOnEntry pauses (default: 'first_line') */
+  entryMode?: EntryMode;
   /** Pause when an exception is thrown */
   stopOnException?: boolean;
+  /** Which exceptions stop_on_exception pauses on */
+  exceptionFilter?: ExceptionFilter;
+  /** PHP error levels to pause on */
+  errorLevels?: PhpErrorLevel[];
+  /** Record all locals at every pause (default: config autoSnapshot) */
+  autoSnapshot?: boolean;
+  /** Step past frames in files matching the config skipGlobs */
+  justMyCode?: boolean;
   /** Explicit path mappings (overrides auto-detection) */
   pathMappings?: PathMapping[];
   /** XDebug listener port (default: auto-detect from config) */
   port?: number;
   /** Connection timeout in milliseconds */
   timeout?: number;
+  /** Idle time before the session is terminated (default: config watchdogTimeout) */
+  watchdogTimeout?: number;
   /** Working directory for the trigger command */
   workingDirectory?: string;
 }
@@ -120,6 +319,7 @@ export type PauseReason =
   | 'breakpoint_hit'  // Hit a line breakpoint
   | 'step_complete'   // Completed a step command
   | 'exception'       // Exception was thrown
+  | 'php_error'       // PHP warning, notice or deprecation
   | 'entry'           // Stop on entry
   | 'user_break';     // Manual break requested
 
@@ -137,8 +337,24 @@ export interface SessionState {
   codeSnippet?: string;
   /** Why execution paused */
   pauseReason?: PauseReason;
-  /** Registered breakpoints (key: "file:line") */
+  /** Stack frame used for variable inspection (0 = current frame) */
+  selectedFrame?: number;
+  /** Registered breakpoints (key: "file:line", or "type:target" for non-line breakpoints) */
   breakpoints: Map<string, BreakpointConfig>;
+  /** Watch expression values evaluated at the current pause */
+  watchValues?: WatchValue[];
+  /** Locals changed since the previous pause in the same frame */
+  changes?: VariableChange[];
+  /** Details of the thrown exception when paused on one */
+  exception?: ExceptionInfo;
+  /** Details of the PHP error when paused on one */
+  phpError?: PhpErrorInfo;
+  /** Frames in skipped files stepped past to reach this pause (just-my-code) */
+  skippedFrames?: number;
+  /** Value returned by the function the last step_out left */
+  returnValue?: ReturnValueInfo;
+  /** Trigger command outcome, once the session detached */
+  trigger?: TriggerResult;
   /** Session start time */
   startedAt: Date;
   /** Last activity timestamp */
@@ -151,6 +367,60 @@ export interface SessionState {
 // Variable Inspection
 // ============================================================================
 
+/**
+ * An exception in a getPrevious() chain
+ */
+export interface ExceptionCause {
+  class: string;
+  message: string;
+  code?: string | number;
+}
+
+/**
+ * A thrown exception, enriched from the exception object
+ */
+export interface ExceptionInfo extends ExceptionCause {
+  /** Where it was thrown (local path) */
+  file?: string;
+  line?: number;
+  /** getPrevious() chain, outermost first */
+  previous: ExceptionCause[];
+  /** Mapped stack trace, innermost frame first */
+  trace: Array<{ file?: string; line?: number; function: string }>;
+}
+
+/**
+ * An exception recorded during a session
+ */
+export interface ExceptionRecord {
+  stepNumber: number;
+  location: DebugLocation;
+  exception: ExceptionInfo;
+}
+
+/**
+ * A local whose value differs from the previous pause in the same frame
+ */
+export interface VariableChange {
+  name: string;
+  change: 'added' | 'removed' | 'modified';
+  /** Compact old value (removed/modified) */
+  oldValue?: string;
+  /** Compact new value (added/modified) */
+  newValue?: string;
+}
+
+/**
+ * A watch expression evaluated at a pause
+ */
+export interface WatchValue {
+  expression: string;
+  /** Compact rendering of the value (scalars verbatim, array(n), Class{}) */
+  value?: string;
+  /** Evaluation error, if any */
+  error?: string;
+}
+
 /**
  * Information about a PHP variable
  */
@@ -173,6 +443,18 @@ export interface VariableInfo {
   truncated?: boolean;
 }
 
+/**
+ * Variables of one DBGp context (Locals, Superglobals, User defined constants)
+ */
+export interface VariableContext {
+  /** DBGp context id */
+  id: number;
+  /** Context name as reported by XDebug */
+  name: string;
+  /** Variables in the context */
+  variables: VariableInfo[];
+}
+
 /**
  * Result of variable inspection
  */
@@ -213,6 +495,22 @@ export interface StackFrame {
   cmdbegin?: string;
 }
 
+/**
+ * A stack frame mapped to local paths, as returned by get_stack_trace
+ */
+export interface StackTraceFrame {
+  /** Stack level (0 = current frame) */
+  level: number;
+  /** File path (local format) */
+  file: string;
+  /** Line number */
+  line: number;
+  /** Function/method name */
+  function?: string;
+  /** Code snippet around the frame's line */
+  codeSnippet?: string;
+}
+
 // ============================================================================
 // Execution Control
 // ============================================================================
@@ -225,8 +523,68 @@ export type ExecutionAction =
   | 'step_into'   // Step into function call
   | 'step_out'    // Execute until current function returns
   | 'continue'    // Continue to next breakpoint
+  | 'run_to_line' // Continue to a given line via a temporary breakpoint
+  | 'step_until'  // Repeat stepping until a condition or location is reached
+  | 'step_into_target' // Step into a named call on the current line
+  | 'pause'       // Interrupt a running script
+  | 'detach'      // Stop debugging and let the script finish
   | 'stop';       // Terminate session
 
+/**
+ * Extra parameters for actions that need a target
+ */
+export interface ExecutionOptions {
+  /** Target file for run_to_line (local path) */
+  file?: string;
+  /** Target line for run_to_line */
+  line?: number;
+  /** step_until: step command to repeat (default step_over) */
+  stepMode?: 'step_over' | 'step_into';
+  /** step_until: stop once this PHP expression is truthy */
+  untilExpression?: string;
+  /** step_until: stop once this file is entered (local path or suffix) */
+  untilFile?: string;
+  /** step_until: stop once this function is entered */
+  untilFunction?: string;
+  /** step_until: step budget */
+  maxSteps?: number;
+  /** step_into_target: callee to enter ('apply' or 'Tax::apply') */
+  target?: string;
+}
+
+/**
+ * Why a step_until loop ended
+ */
+export type StepUntilStopReason =
+  | 'condition_met'
+  | 'file_entered'
+  | 'function_entered'
+  | 'budget_exhausted'
+  | 'interrupted'       // Exception or other non-step pause
+  | 'session_ended';
+
+/**
+ * A message rendered by a logpoint
+ */
+export interface LogEntry {
+  /** Step the message was logged after */
+  stepNumber: number;
+  location: DebugLocation;
+  message: string;
+  /** ISO timestamp */
+  timestamp: string;
+}
+
+/**
+ * Outcome of a step_until action
+ */
+export interface StepUntilResult {
+  stopReason: StepUntilStopReason;
+  stepsTaken: number;
+  /** Locations visited, in order */
+  path: DebugLocation[];
+}
+
 // ============================================================================
 // Session History (Time Travel)
 // ============================================================================
@@ -253,6 +611,22 @@ export interface SessionHistoryEntry {
   action: string;
 }
 
+/**
+ * A variable value changed at runtime (via property_set)
+ */
+export interface VariableModification {
+  /** Step number when modified */
+  stepNumber: number;
+  /** Location in code */
+  location: DebugLocation;
+  /** Variable fullname (e.g., $order->status) */
+  variableName: string;
+  /** Value before the change */
+  oldValue: unknown;
+  /** Value after the change */
+  newValue: unknown;
+}
+
 /**
  * Summary of a completed debug session
  */
@@ -273,6 +647,14 @@ export interface SessionSummary {
   executionPath: DebugLocation[];
   /** Variables that were inspected */
   variablesInspected: string[];
+  /** Variables changed by the agent via set_variable */
+  variablesModified: VariableModification[];
+  /** Messages rendered by logpoints */
+  logMessages: LogEntry[];
+  /** Exceptions execution paused on */
+  exceptions: ExceptionRecord[];
+  /** PHP errors reported through notifications */
+  phpErrors: SessionEvent[];
   /** Duration in milliseconds */
   duration: number;
 }
@@ -387,6 +769,9 @@ export interface ControlExecutionResponse {
   };
   code_snippet?: string;
   pause_reason?: PauseReason;
+  /** Locals changed since the previous pause in the same frame */
+  changes?: VariableChange[];
+  exception?: ExceptionInfo;
   hint?: string;
 }
 
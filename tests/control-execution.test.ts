@@ -0,0 +1,30 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleControlExecution } from '../src/tools/control-execution.js';
+import type { DebugSessionManager } from '../src/debug/session-manager.js';
+
+describe('handleControlExecution', () => {
+  let mockSessionManager: DebugSessionManager;
+
+  beforeEach(() => {
+    mockSessionManager = {
+      executeAction: vi.fn(),
+    } as unknown as DebugSessionManager;
+  });
+
+  describe('step_until', () => {
+    it('should require an until criterion', async () => {
+      await expect(
+        handleControlExecution({ action: 'step_until', max_steps: 200 }, mockSessionManager)
+      ).rejects.toThrow(/until_expression, until_file or until_function/);
+      expect(mockSessionManager.executeAction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('run_to_line', () => {
+    it('should require a line', async () => {
+      await expect(
+        handleControlExecution({ action: 'run_to_line', file: 'app/Models/Order.php' }, mockSessionManager)
+      ).rejects.toThrow(/line is required/);
+    });
+  });
+});
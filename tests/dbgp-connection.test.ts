@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { readThrownException } from '../src/debug/exception-details.js';
+import { NS, connectFake, receive } from './fake-xdebug.js';
+
+describe('DbgpConnection', () => {
+  describe('breakpoints', () => {
+    it('should parse resolved and unresolved breakpoint state', async () => {
+      const { connection } = connectFake((command) =>
+        command === 'breakpoint_list'
+          ? `<breakpoint type="line" filename="file:///var/www/html/app/Services/OrderService.php" lineno="42" state="enabled" hit_count="0" hit_value="0" id="10001" resolved="resolved"></breakpoint>` +
+            `<breakpoint type="line" filename="file:///var/www/html/app/Services/OrderService.php" lineno="44" state="enabled" hit_count="0" hit_value="0" id="10002" resolved="unresolved"></breakpoint>` +
+            `<breakpoint type="call" function="apply" class="TaxCalculator" state="enabled" hit_count="0" hit_value="0" id="10003"></breakpoint>`
+          : undefined
+      );
+
+      const breakpoints = await connection.listBreakpoints();
+
+      expect(breakpoints.map((bp) => [bp.id, bp.resolved])).toEqual([
+        [10001, true],
+        [10002, false],
+        [10003, undefined],
+      ]);
+      expect(breakpoints[0]).toMatchObject({
+        filename: '/var/www/html/app/Services/OrderService.php',
+        lineno: 42,
+      });
+    });
+
+    it('should parse breakpoint_resolved notifications', async () => {
+      const { connection } = connectFake(() => undefined);
+      const events: unknown[] = [];
+      connection.on('notify', (event) => events.push(event));
+
+      receive(connection,
+        `<notify ${NS} name="breakpoint_resolved"><breakpoint type="line" resolved="resolved" filename="file:///var/www/html/app/Models/Order.php" lineno="31" state="enabled" hit_count="0" hit_value="0" id="10004"></breakpoint></notify>`
+      );
+
+      expect(events).toEqual([
+        {
+          name: 'breakpoint_resolved',
+          breakpoint: expect.objectContaining({ id: 10004, lineno: 31, resolved: true }),
+        },
+      ]);
+    });
+  });
+
+  describe('property limits', () => {
+    it('should only send max_depth/max_children when they change', async () => {
+      const { connection, sent } = connectFake((command) =>
+        command === 'feature_set'
+          ? { attributes: 'success="1"' }
+          : `<property name="$id" fullname="$id" type="int"><![CDATA[7]]></property>`
+      );
+
+      await connection.getContextVariables(0, 0, 1, 10);
+      await connection.getContextVariables(0, 0, 1, 10);
+      await connection.getProperty('$order', 2, 10);
+
+      expect(sent.map((c) => c.replace(/ -i \d+/, ''))).toEqual([
+        'feature_set -n max_depth -v 1',
+        'feature_set -n max_children -v 10',
+        'context_get -c 0 -d 0',
+        'context_get -c 0 -d 0',
+        'feature_set -n max_depth -v 2',
+        'property_get -n $order -d 0 -c 0',
+      ]);
+    });
+  });
+
+  describe('streams', () => {
+    it('should decode base64 stream packets as UTF-8', () => {
+      const { connection } = connectFake(() => undefined);
+      const events: unknown[] = [];
+      connection.on('stream', (event) => events.push(event));
+
+      receive(connection,
+        `<stream ${NS} type="stdout" encoding="base64"><![CDATA[${Buffer.from('Total: 12 €\n').toString('base64')}]]></stream>`
+      );
+      receive(connection,
+        `<stream ${NS} type="stderr" encoding="base64"><![CDATA[${Buffer.from('PHP Warning').toString('base64')}]]></stream>`
+      );
+
+      expect(events).toEqual([
+        { type: 'stdout', data: 'Total: 12 €\n' },
+        { type: 'stderr', data: 'PHP Warning' },
+      ]);
+    });
+
+    it('should pass through unencoded stream packets', () => {
+      const { connection } = connectFake(() => undefined);
+      const events: unknown[] = [];
+      connection.on('stream', (event) => events.push(event));
+
+      receive(connection, `<stream ${NS} type="stdout"><![CDATA[Hello]]></stream>`);
+
+      expect(events).toEqual([{ type: 'stdout', data: 'Hello' }]);
+    });
+  });
+
+  describe('exception details', () => {
+    const b64 = (text: string) => Buffer.from(text).toString('base64');
+    const str = (name: string, fullname: string, text: string, facet = 'protected') =>
+      `<property name="${name}" fullname="${fullname}" facet="${facet}" type="string" size="${text.length}" encoding="base64"><![CDATA[${b64(text)}]]></property>`;
+    const int = (name: string, fullname: string, value: number) =>
+      `<property name="${name}" fullname="${fullname}" facet="protected" type="int"><![CDATA[${value}]]></property>`;
+
+    // property_get -n $__EXCEPTION at max_depth 3, as sent by XDebug 3.3
+    const EXCEPTION = '$__EXCEPTION';
+    const PREVIOUS = '$__EXCEPTION-&gt;*Exception*previous';
+    const exceptionResponse =
+      `<property name="$__EXCEPTION" fullname="$__EXCEPTION" type="object" classname="App\\Exceptions\\PaymentFailed" children="1" numchildren="7" page="0" pagesize="20">` +
+        str('message', `${EXCEPTION}-&gt;message`, 'Card declined') +
+        str('string', `${EXCEPTION}-&gt;*Exception*string`, '', 'private') +
+        int('code', `${EXCEPTION}-&gt;code`, 402) +
+        str('file', `${EXCEPTION}-&gt;file`, '/var/www/html/app/Services/PaymentService.php') +
+        int('line', `${EXCEPTION}-&gt;line`, 57) +
+        `<property name="trace" fullname="${EXCEPTION}-&gt;*Exception*trace" facet="private" type="array" children="1" numchildren="1" page="0" pagesize="20">` +
+          `<property name="0" fullname="${EXCEPTION}-&gt;*Exception*trace[0]" type="array" children="1" numchildren="5" page="0" pagesize="20">` +
+            str('file', `${EXCEPTION}-&gt;*Exception*trace[0][file]`, '/var/www/html/app/Http/Controllers/CheckoutController.php', '') +
+            `<property name="line" fullname="${EXCEPTION}-&gt;*Exception*trace[0][line]" type="int"><![CDATA[31]]></property>` +
+            str('function', `${EXCEPTION}-&gt;*Exception*trace[0][function]`, 'charge', '') +
+            str('class', `${EXCEPTION}-&gt;*Exception*trace[0][class]`, 'App\\Services\\PaymentService', '') +
+            str('type', `${EXCEPTION}-&gt;*Exception*trace[0][type]`, '->', '') +
+          `</property>` +
+        `</property>` +
+        `<property name="previous" fullname="${PREVIOUS}" facet="private" type="object" classname="GuzzleHttp\\Exception\\ClientException" children="1" numchildren="7" page="0" pagesize="20">` +
+          str('message', `${PREVIOUS}-&gt;message`, '402 Payment Required') +
+          int('code', `${PREVIOUS}-&gt;code`, 402) +
+          `<property name="previous" fullname="${PREVIOUS}-&gt;*Exception*previous" facet="private" type="object" classname="RuntimeException" children="1" numchildren="7"></property>` +
+        `</property>` +
+      `</property>`;
+
+    // Third link, fetched by its fullname at max_depth 1
+    const deepestResponse =
+      `<property name="$__EXCEPTION-&gt;*Exception*previous-&gt;*Exception*previous" fullname="${PREVIOUS}-&gt;*Exception*previous" type="object" classname="RuntimeException" children="1" numchildren="7" page="0" pagesize="20">` +
+        str('message', `${PREVIOUS}-&gt;*Exception*previous-&gt;message`, 'Connection reset') +
+        int('code', `${PREVIOUS}-&gt;*Exception*previous-&gt;code`, 0) +
+        `<property name="previous" fullname="${PREVIOUS}-&gt;*Exception*previous-&gt;*Exception*previous" facet="private" type="null"></property>` +
+      `</property>`;
+
+    it('should read the exception, its previous chain and trace with property_get', async () => {
+      const { connection, sent } = connectFake((command, args) => {
+        if (command === 'feature_set') return { attributes: 'success="1"' };
+        if (command !== 'property_get') return undefined;
+        return args.startsWith('-n $__EXCEPTION ') ? exceptionResponse : deepestResponse;
+      });
+
+      const thrown = await readThrownException(connection);
+
+      expect(thrown).toEqual({
+        class: 'App\\Exceptions\\PaymentFailed',
+        message: 'Card declined',
+        code: 402,
+        file: '/var/www/html/app/Services/PaymentService.php',
+        line: 57,
+        previous: [
+          { class: 'GuzzleHttp\\Exception\\ClientException', message: '402 Payment Required', code: 402 },
+          { class: 'RuntimeException', message: 'Connection reset', code: 0 },
+        ],
+        trace: [
+          {
+            file: '/var/www/html/app/Http/Controllers/CheckoutController.php',
+            line: 31,
+            function: 'App\\Services\\PaymentService->charge',
+          },
+        ],
+      });
+      expect(sent.filter((c) => c.startsWith('property_get'))).toEqual([
+        expect.stringContaining('-n $__EXCEPTION -d 0'),
+        expect.stringContaining('-n $__EXCEPTION->*Exception*previous->*Exception*previous -d 0'),
+      ]);
+      expect(sent.some((c) => c.startsWith('eval'))).toBe(false);
+    });
+
+    it('should return null when there is no exception object', async () => {
+      const { connection } = connectFake((command) =>
+        command === 'property_get'
+          ? { body: '<error code="300"><message><![CDATA[can not get property]]></message></error>' }
+          : { attributes: 'success="1"' }
+      );
+
+      expect(await readThrownException(connection)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ancestryExpression,
+  isFilteredException,
+  matchesClass,
+} from '../src/debug/exception-filter.js';
+import type { ThrownClass } from '../src/debug/exception-filter.js';
+
+describe('matchesClass', () => {
+  it('should match fully-qualified and short names', () => {
+    const name = 'Symfony\\Component\\HttpKernel\\Exception\\NotFoundHttpException';
+    expect(matchesClass(name, name)).toBe(true);
+    expect(matchesClass(name, `\\${name}`)).toBe(true);
+    expect(matchesClass(name, 'NotFoundHttpException')).toBe(true);
+    expect(matchesClass(name, 'Exception\\NotFoundHttpException')).toBe(true);
+  });
+
+  it('should not match partial class names', () => {
+    expect(matchesClass('App\\Exceptions\\NotFoundHttpException', 'HttpException')).toBe(false);
+    expect(matchesClass('RuntimeException', 'Exception')).toBe(false);
+  });
+});
+
+describe('ancestryExpression', () => {
+  it('should quote the class name as a PHP string literal', () => {
+    expect(ancestryExpression('App\\Exceptions\\PaymentFailed')).toBe(
+      "implode(',', array_merge(array_keys(class_parents('App\\\\Exceptions\\\\PaymentFailed') ?: []), " +
+        "array_keys(class_implements('App\\\\Exceptions\\\\PaymentFailed') ?: [])))"
+    );
+  });
+});
+
+describe('isFilteredException', () => {
+  const notFound: ThrownClass = {
+    name: 'Symfony\\Component\\HttpKernel\\Exception\\NotFoundHttpException',
+    ancestors: [
+      'Symfony\\Component\\HttpKernel\\Exception\\HttpException',
+      'RuntimeException',
+      'Exception',
+      'Symfony\\Component\\HttpKernel\\Exception\\HttpExceptionInterface',
+      'Throwable',
+    ],
+    inSkippedFile: false,
+    explicitBreakpoint: false,
+  };
+
+  it('should exclude subclasses of excluded classes', () => {
+    expect(isFilteredException(notFound, { exclude: ['HttpException'] })).toBe(true);
+    expect(isFilteredException(notFound, { exclude: ['HttpExceptionInterface'] })).toBe(true);
+  });
+
+  it('should keep exceptions outside the excluded hierarchy', () => {
+    expect(isFilteredException(notFound, { exclude: ['LogicException'] })).toBe(false);
+    expect(isFilteredException(notFound, {})).toBe(false);
+  });
+
+  it('should skip exceptions thrown from vendor files when asked', () => {
+    const vendor = { ...notFound, inSkippedFile: true };
+    expect(isFilteredException(vendor, { skipVendor: true })).toBe(true);
+    expect(isFilteredException(vendor, { skipVendor: false })).toBe(false);
+  });
+
+  it('should not skip vendor exceptions that hit a user exception breakpoint', () => {
+    const explicit = { ...notFound, inSkippedFile: true, explicitBreakpoint: true };
+    expect(isFilteredException(explicit, { skipVendor: true })).toBe(false);
+    expect(isFilteredException(explicit, { skipVendor: true, exclude: ['HttpException'] })).toBe(true);
+  });
+});
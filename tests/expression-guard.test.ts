@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { detectSideEffect } from '../src/debug/expression-guard.js';
+
+describe('detectSideEffect', () => {
+  describe('safe expressions', () => {
+    it.each([
+      '$user->isAdmin()',
+      'count($items) > 0',
+      '$a === $b',
+      '$a !== null && $b <= 5',
+      "['key' => $value]",
+      "$order->status == 'paid'",
+      "str_contains($name, 'a=b')",
+      'App\\Models\\User::find(5)',
+      '$user->orders()->where("total", ">", 100)->count()',
+      "$request->query('page')",
+      'Carbon::create(2024, 1, 31)',
+      '$collection->push($item)->count()',
+      "$this->dbName->getQuery()",
+      "$request->header('Authorization')",
+      '$now->copy()->addDay()',
+      'Carbon::copy()',
+    ])('should allow %s', (expression) => {
+      expect(detectSideEffect(expression)).toBeNull();
+    });
+  });
+
+  describe('side-effecting expressions', () => {
+    it.each([
+      ['$discount = 0', 'assignment'],
+      ['$total += 5', 'assignment'],
+      ['$i++', 'increment/decrement'],
+      ['exit(1)', 'terminates the script'],
+      ["copy('/tmp/a', '/tmp/b')", 'writes to the filesystem'],
+      ["header('Location: /')", 'sends output or mutates the request'],
+      ['$model->touch()', 'writes to the database'],
+      ["unlink('/tmp/cache')", 'writes to the filesystem'],
+      ['$order->save()', 'writes to the database'],
+      ['$user->posts()->create(["title" => "x"])', 'writes to the database'],
+      ['$order->push()', 'writes to the database'],
+      ["$pdo->exec('DELETE FROM orders')", 'runs a raw database statement'],
+      ["$this->db->query('TRUNCATE logs')", 'runs a raw database statement'],
+      ["DB::connection()->getPdo()->exec('VACUUM')", 'runs a raw database statement'],
+      ["DB::statement('DROP TABLE users')", 'writes to the database'],
+      ['`rm -rf /`', 'shell execution'],
+      ["exec('rm -rf /tmp/x')", 'executes a process'],
+    ])('should reject %s', (expression, reason) => {
+      expect(detectSideEffect(expression)).toBe(reason);
+    });
+  });
+});
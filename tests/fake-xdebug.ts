@@ -0,0 +1,144 @@
+/**
+ * Drives DbgpConnection with recorded XDebug packets through a fake socket
+ */
+
+import { DbgpConnection } from '../src/debug/dbgp-connection.js';
+import { DebugSessionManager } from '../src/debug/session-manager.js';
+import type {
+  BreakpointConfig,
+  DebugLocation,
+  ExceptionFilter,
+  SessionState,
+} from '../src/types/index.js';
+
+/** Reply to a command: child XML, or response attributes plus child XML */
+export type Reply = string | { attributes?: string; body?: string };
+/** Returns the reply, or null to answer later (e.g. a run still running) */
+export type Responder = (command: string, args: string, id: string) => Reply | null | undefined;
+
+export const NS = 'xmlns="urn:debugger_protocol_v1" xmlns:xdebug="https://xdebug.org/dbgp/xdebug"';
+
+export function packet(xml: string): Buffer {
+  const body = `<?xml version="1.0" encoding="iso-8859-1"?>\n${xml}`;
+  return Buffer.from(`${Buffer.byteLength(body)}\0${body}\0`);
+}
+
+/** Response element for a command */
+export function response(command: string, id: string, reply: Reply = ''): string {
+  const { attributes = '', body = '' } = typeof reply === 'string' ? { body: reply } : reply;
+  return `<response ${NS} command="${command}" transaction_id="${id}" ${attributes}>${body}</response>`;
+}
+
+/**
+ * Connect a DbgpConnection to a fake socket that answers each command
+ * through the responder
+ */
+export function connectFake(
+  responder: Responder,
+  timeout = 1000
+): { connection: DbgpConnection; sent: string[] } {
+  const connection = new DbgpConnection({ timeout });
+  const internals = connection as unknown as {
+    socket: unknown;
+    connected: boolean;
+    handleData(data: Buffer): void;
+  };
+  const sent: string[] = [];
+
+  internals.socket = {
+    write(data: string, callback?: (err?: Error) => void) {
+      const line = data.replace(/\0$/, '');
+      sent.push(line);
+      const match = /^(\S+) -i (\d+) ?(.*)$/.exec(line)!;
+      const [, command, id, args] = match;
+      const reply = responder(command!, args!, id!);
+      if (reply !== null) {
+        setImmediate(() => internals.handleData(packet(response(command!, id!, reply))));
+      }
+      callback?.();
+      return true;
+    },
+    destroy() {},
+  };
+  internals.connected = true;
+
+  return { connection, sent };
+}
+
+/** Feed an unsolicited packet (notify, stream) to the connection */
+export function receive(connection: DbgpConnection, xml: string): void {
+  (connection as unknown as { handleData(data: Buffer): void }).handleData(packet(xml));
+}
+
+/** A stack frame the fake reports, top frame first */
+export interface FakeFrame {
+  file: string;
+  line: number;
+  where: string;
+}
+
+/** stack_get reply for the given frames */
+export function stackReply(frames: FakeFrame[]): string {
+  return frames
+    .map((frame, level) =>
+      `<stack where="${frame.where}" level="${level}" type="file" filename="file://${frame.file}" lineno="${frame.line}"></stack>`
+    )
+    .join('');
+}
+
+/** Reply to a continuation command that paused at the given place */
+export function breakReply(file: string, line: number, exception?: string): Reply {
+  return {
+    attributes: 'status="break" reason="ok"',
+    body: `<xdebug:message filename="file://${file}" lineno="${line}"${exception ? ` exception="${exception}"` : ''}></xdebug:message>`,
+  };
+}
+
+/**
+ * A DebugSessionManager paused in a session on a fake connection
+ */
+export function fakeSession(
+  responder: Responder,
+  state: {
+    location: DebugLocation;
+    stackDepth: number;
+    /** Engine accepts commands while the script runs */
+    supportsAsync?: boolean;
+    /** Engine exposes $__RETURN_VALUE after step_out */
+    supportsReturnValue?: boolean;
+    /** Command timeout, in milliseconds */
+    timeout?: number;
+    exceptionFilter?: ExceptionFilter;
+    /** Line breakpoints, with remote paths */
+    breakpoints?: BreakpointConfig[];
+  }
+): { manager: DebugSessionManager; connection: DbgpConnection; sent: string[] } {
+  const { connection, sent } = connectFake(responder, state.timeout);
+  const manager = new DebugSessionManager();
+  const internals = manager as unknown as {
+    connection: DbgpConnection;
+    session: SessionState;
+    stackDepth: number;
+    supportsAsync: boolean;
+    supportsReturnValue: boolean;
+    exceptionFilter: ExceptionFilter;
+    setupConnectionHandlers(): void;
+  };
+
+  internals.connection = connection;
+  internals.session = {
+    id: 'fake-session',
+    status: 'paused',
+    breakpoints: new Map((state.breakpoints ?? []).map((bp) => [`${bp.file}:${bp.line}`, bp])),
+    location: state.location,
+    startedAt: new Date(),
+    lastActivityAt: new Date(),
+  };
+  internals.stackDepth = state.stackDepth;
+  internals.supportsAsync = state.supportsAsync ?? false;
+  internals.supportsReturnValue = state.supportsReturnValue ?? false;
+  internals.exceptionFilter = state.exceptionFilter ?? {};
+  internals.setupConnectionHandlers();
+
+  return { manager, connection, sent };
+}
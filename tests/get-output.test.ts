@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleGetOutput } from '../src/tools/get-output.js';
+import { OutputBuffer } from '../src/debug/output-buffer.js';
+import type { DebugSessionManager } from '../src/debug/session-manager.js';
+
+describe('handleGetOutput', () => {
+  let buffer: OutputBuffer;
+  let mockSessionManager: DebugSessionManager;
+
+  beforeEach(() => {
+    buffer = new OutputBuffer(1024);
+    mockSessionManager = {
+      getOutput: vi.fn((tail?: number) => buffer.read(tail)),
+    } as unknown as DebugSessionManager;
+  });
+
+  it('should explain when nothing was captured', async () => {
+    const result = await handleGetOutput({}, mockSessionManager);
+
+    expect(result).toMatchObject({ output: '', total_length: 0, message: 'No output captured yet.' });
+  });
+
+  it('should return all output when it fits', async () => {
+    buffer.append('Order #1042 saved\n');
+
+    const result = await handleGetOutput({}, mockSessionManager);
+
+    expect(result).toMatchObject({ output: 'Order #1042 saved\n', total_length: 18, truncated: false });
+  });
+
+  it('should report truncated for a tail', async () => {
+    buffer.append('Order #1042 saved\n');
+
+    const result = await handleGetOutput({ tail: 6 }, mockSessionManager);
+
+    expect(mockSessionManager.getOutput).toHaveBeenCalledWith(6);
+    expect(result).toMatchObject({
+      output: 'saved\n',
+      total_length: 18,
+      truncated: true,
+      message: 'Last 6 of 18 characters',
+    });
+  });
+
+  it('should report truncated once the buffer dropped output', async () => {
+    buffer = new OutputBuffer(8);
+    buffer.append('Order #1042 saved\n');
+
+    const result = await handleGetOutput({}, mockSessionManager);
+
+    expect(result).toMatchObject({ output: '2 saved\n', total_length: 18, truncated: true });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleListVariables } from '../src/tools/list-variables.js';
+import type { DebugSessionManager } from '../src/debug/session-manager.js';
+import type { VariableContext } from '../src/types/index.js';
+
+describe('handleListVariables', () => {
+  let mockSessionManager: DebugSessionManager;
+
+  const contexts: VariableContext[] = [
+    {
+      id: 0,
+      name: 'Locals',
+      variables: [
+        {
+          name: '$order',
+          type: 'object',
+          classname: 'App\\Models\\Order',
+          numchildren: 2,
+          children: [
+            { name: 'id', type: 'int', value: 42 },
+            { name: 'status', type: 'string', value: 'pending' },
+          ],
+        },
+      ],
+    },
+    {
+      id: 1,
+      name: 'Superglobals',
+      variables: [
+        {
+          name: '$_SERVER',
+          type: 'array',
+          numchildren: 1,
+          children: [{ name: 'REQUEST_METHOD', type: 'string', value: 'POST' }],
+        },
+      ],
+    },
+    {
+      id: 2,
+      name: 'User defined constants',
+      variables: [{ name: 'APP_ENV', type: 'string', value: 'testing' }],
+    },
+  ];
+
+  beforeEach(() => {
+    mockSessionManager = {
+      getContexts: vi.fn().mockResolvedValue(contexts),
+    } as unknown as DebugSessionManager;
+  });
+
+  it('should list names and types only without a filter', async () => {
+    const result = await handleListVariables({}, mockSessionManager);
+
+    expect(mockSessionManager.getContexts).toHaveBeenCalledWith(undefined, 1);
+    expect(result).toMatchObject({
+      contexts: {
+        locals: [{ name: '$order', type: 'object', classname: 'App\\Models\\Order', children_count: 2 }],
+        superglobals: [{ name: '$_SERVER', type: 'array' }],
+        constants: [{ name: 'APP_ENV', type: 'string' }],
+      },
+    });
+    expect(JSON.stringify(result)).not.toContain('testing');
+  });
+
+  it('should request a single context by id', async () => {
+    await handleListVariables({ context: 'constants' }, mockSessionManager);
+
+    expect(mockSessionManager.getContexts).toHaveBeenCalledWith([2], 1);
+  });
+
+  it('should return values through a JSONPath filter', async () => {
+    const constant = await handleListVariables(
+      { filter: '$.constants.APP_ENV' },
+      mockSessionManager
+    );
+    const server = await handleListVariables(
+      { filter: '$.superglobals._SERVER.REQUEST_METHOD' },
+      mockSessionManager
+    );
+    const local = await handleListVariables(
+      { filter: '$.locals.order.status' },
+      mockSessionManager
+    );
+
+    expect(constant).toMatchObject({ value: 'testing' });
+    expect(server).toMatchObject({ value: 'POST' });
+    expect(local).toMatchObject({ value: 'pending' });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { diffVariables } from '../src/debug/locals-diff.js';
+import type { VariableInfo } from '../src/types/index.js';
+
+describe('diffVariables', () => {
+  const before: VariableInfo[] = [
+    { name: '$status', type: 'string', value: 'pending' },
+    { name: '$total', type: 'float', value: 99.5 },
+    { name: '$tmp', type: 'int', value: 1 },
+    { name: '$result', type: 'uninitialized' },
+  ];
+
+  it('should report added, removed and modified locals', () => {
+    const after: VariableInfo[] = [
+      { name: '$status', type: 'string', value: 'paid' },
+      { name: '$total', type: 'float', value: 99.5 },
+      { name: '$result', type: 'bool', value: '1' },
+    ];
+
+    expect(diffVariables(before, after)).toEqual([
+      { name: '$status', change: 'modified', oldValue: 'pending', newValue: 'paid' },
+      { name: '$result', change: 'added', newValue: 'true' },
+      { name: '$tmp', change: 'removed', oldValue: '1' },
+    ]);
+  });
+
+  it('should detect changes inside arrays', () => {
+    const items = (count: number): VariableInfo => ({
+      name: '$items',
+      type: 'array',
+      numchildren: count,
+      children: Array.from({ length: count }, (_, i) => ({ name: String(i), type: 'int', value: i })),
+    });
+
+    expect(diffVariables([items(2)], [items(3)])).toEqual([
+      { name: '$items', change: 'modified', oldValue: 'array(2)', newValue: 'array(3)' },
+    ]);
+  });
+
+  it('should return nothing when no local changed', () => {
+    expect(diffVariables(before, before)).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatLogValue,
+  parseLogTemplate,
+  templateExpressions,
+} from '../src/debug/log-template.js';
+
+describe('parseLogTemplate', () => {
+  it('should split literals and placeholders', () => {
+    expect(parseLogTemplate('order {$order->id} total={$total}')).toEqual([
+      'order ',
+      { expression: '$order->id' },
+      ' total=',
+      { expression: '$total' },
+    ]);
+  });
+
+  it('should balance braces inside placeholders', () => {
+    expect(templateExpressions("key={$map['{a}']}")).toEqual(["$map['{a}']"]);
+  });
+
+  it('should keep plain braces and unterminated placeholders as text', () => {
+    expect(parseLogTemplate('{json} {$broken')).toEqual(['{json} {$broken']);
+  });
+});
+
+describe('formatLogValue', () => {
+  it('should format scalars', () => {
+    expect(formatLogValue({ name: '$n', type: 'int', value: 42 })).toBe('42');
+    expect(formatLogValue({ name: '$b', type: 'bool', value: '1' })).toBe('true');
+    expect(formatLogValue({ name: '$x', type: 'null' })).toBe('null');
+    expect(formatLogValue(null)).toBe('null');
+  });
+
+  it('should summarize arrays and objects', () => {
+    expect(formatLogValue({ name: '$a', type: 'array', numchildren: 3 })).toBe('array(3)');
+    expect(formatLogValue({ name: '$o', type: 'object', classname: 'App\\Order' })).toBe('App\\Order{}');
+  });
+});
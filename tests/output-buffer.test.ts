@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { OutputBuffer } from '../src/debug/output-buffer.js';
+
+describe('OutputBuffer', () => {
+  it('should keep all output below the limit', () => {
+    const buffer = new OutputBuffer(16);
+    buffer.append('Hello, ');
+    buffer.append('world');
+
+    expect(buffer.read()).toEqual({ output: 'Hello, world', totalLength: 12, truncated: false });
+  });
+
+  it('should drop the oldest characters past the limit', () => {
+    const buffer = new OutputBuffer(8);
+    buffer.append('0123456789');
+    buffer.append('abc');
+
+    expect(buffer.read()).toEqual({ output: '56789abc', totalLength: 13, truncated: true });
+  });
+
+  it('should count the limit in UTF-16 characters', () => {
+    const buffer = new OutputBuffer(4);
+    buffer.append('€€€€€');
+
+    expect(buffer.read()).toMatchObject({ output: '€€€€', totalLength: 5 });
+  });
+
+  it('should return the tail without reporting it as truncated', () => {
+    const buffer = new OutputBuffer(64);
+    buffer.append('line 1\nline 2\n');
+
+    expect(buffer.read(7)).toEqual({ output: 'line 2\n', totalLength: 14, truncated: false });
+  });
+
+  it('should report truncated when a tail is read from a trimmed buffer', () => {
+    const buffer = new OutputBuffer(10);
+    buffer.append('0123456789abcdef');
+
+    expect(buffer.read(4)).toEqual({ output: 'cdef', totalLength: 16, truncated: true });
+    expect(buffer.read(100).output).toBe('6789abcdef');
+  });
+});
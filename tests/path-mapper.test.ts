@@ -66,6 +66,18 @@ describe('PathMapper', () => {
     });
   });
 
+  describe('toProjectRelative', () => {
+    it('should return paths relative to the project root', () => {
+      expect(mapper.toProjectRelative('/home/user/project/app/Models/User.php')).toBe('app/Models/User.php');
+      expect(mapper.toProjectRelative('src/Kernel.php')).toBe('src/Kernel.php');
+    });
+
+    it('should return undefined outside the project root', () => {
+      expect(mapper.toProjectRelative('/usr/share/php/PEAR.php')).toBeUndefined();
+      expect(mapper.toProjectRelative('/home/user/project')).toBeUndefined();
+    });
+  });
+
   describe('loadMappings', () => {
     it('should use explicit mappings when provided', async () => {
       await mapper.loadMappings([
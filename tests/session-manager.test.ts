@@ -0,0 +1,278 @@
+import { describe, it, expect, vi } from 'vitest';
+import { breakReply, fakeSession, receive, response, stackReply } from './fake-xdebug.js';
+import type { FakeFrame } from './fake-xdebug.js';
+import { AsyncBreakUnsupportedError } from '../src/errors.js';
+
+const MAIN: FakeFrame = { file: '/app/public/index.php', line: 5, where: '{main}' };
+
+describe('DebugSessionManager', () => {
+  describe('filtered exceptions', () => {
+    it('should finish an interrupted step_over instead of continuing', async () => {
+      let frames: FakeFrame[] = [MAIN];
+      const { manager, sent } = fakeSession(
+        (command) => {
+          switch (command) {
+            case 'step_over':
+              frames = [{ file: '/app/src/Cache.php', line: 12, where: 'App\\Cache->get' }, MAIN];
+              return breakReply('/app/src/Cache.php', 12, 'App\\CacheMiss');
+            case 'step_out':
+              frames = [{ ...MAIN, line: 6 }];
+              return breakReply(MAIN.file, 6);
+            case 'stack_get':
+              return stackReply(frames);
+            default:
+              return undefined;
+          }
+        },
+        {
+          location: { file: MAIN.file, line: 5 },
+          stackDepth: 1,
+          exceptionFilter: { exclude: ['App\\CacheMiss'] },
+        }
+      );
+
+      const session = await manager.executeAction('step_over');
+
+      const commands = sent.map((line) => line.split(' ')[0]);
+      expect(commands).toContain('step_out');
+      expect(commands).not.toContain('run');
+      expect(session).toMatchObject({
+        status: 'paused',
+        pauseReason: 'step_complete',
+        location: { file: MAIN.file, line: 6 },
+      });
+    });
+  });
+
+  describe('logpoints', () => {
+    it('should log a logpoint a step_over passes in a callee and finish the step', async () => {
+      let frames: FakeFrame[] = [MAIN];
+      const { manager, sent } = fakeSession(
+        (command) => {
+          switch (command) {
+            case 'step_over':
+              frames = [{ file: '/app/src/Cart.php', line: 20, where: 'App\\Cart->total' }, MAIN];
+              return breakReply('/app/src/Cart.php', 20);
+            case 'step_out':
+              frames = [{ ...MAIN, line: 6 }];
+              return breakReply(MAIN.file, 6);
+            case 'stack_get':
+              return stackReply(frames);
+            case 'eval':
+              return '<property type="int"><![CDATA[42]]></property>';
+            default:
+              return undefined;
+          }
+        },
+        {
+          location: { file: MAIN.file, line: 5 },
+          stackDepth: 1,
+          breakpoints: [
+            { type: 'line', file: '/app/src/Cart.php', line: 20, logMessage: 'total={$total}', enabled: true },
+          ],
+        }
+      );
+
+      const session = await manager.executeAction('step_over');
+
+      expect(manager.getLogEntries().map((entry) => entry.message)).toEqual(['total=42']);
+      expect(sent.map((line) => line.split(' ')[0])).not.toContain('run');
+      expect(session).toMatchObject({
+        status: 'paused',
+        pauseReason: 'step_complete',
+        location: { file: MAIN.file, line: 6 },
+      });
+    });
+  });
+
+  describe('run_to_line', () => {
+    const target = { file: MAIN.file, line: 30 };
+
+    it('should remove the target breakpoint when another breakpoint pauses first', async () => {
+      let frames: FakeFrame[] = [MAIN];
+      const { manager, sent } = fakeSession(
+        (command) => {
+          switch (command) {
+            case 'breakpoint_set':
+              return { attributes: 'id="17"' };
+            case 'run':
+              frames = [{ ...MAIN, line: 10 }];
+              return breakReply(MAIN.file, 10);
+            case 'stack_get':
+              return stackReply(frames);
+            default:
+              return undefined;
+          }
+        },
+        {
+          location: { file: MAIN.file, line: 5 },
+          stackDepth: 1,
+          breakpoints: [{ type: 'line', file: MAIN.file, line: 10, enabled: true }],
+        }
+      );
+
+      const session = await manager.executeAction('run_to_line', target);
+
+      expect(session).toMatchObject({ pauseReason: 'breakpoint_hit', location: { line: 10 } });
+      expect(sent.some((line) => /^breakpoint_remove -i \d+ -d 17$/.test(line))).toBe(true);
+    });
+
+    it('should remove the target breakpoint when the wait times out and async commands work', async () => {
+      const { manager, sent } = fakeSession(
+        (command) => {
+          switch (command) {
+            case 'breakpoint_set':
+              return { attributes: 'id="17"' };
+            case 'run':
+              return null;
+            default:
+              return undefined;
+          }
+        },
+        { location: { file: MAIN.file, line: 5 }, stackDepth: 1, supportsAsync: true, timeout: 50 }
+      );
+
+      const session = await manager.executeAction('run_to_line', target);
+
+      expect(session.status).toBe('running');
+      expect(sent.some((line) => /^breakpoint_remove -i \d+ -d 17$/.test(line))).toBe(true);
+    });
+
+    it('should keep tracking the target until a late pause when the engine is busy', async () => {
+      let runId = '';
+      let frames: FakeFrame[] = [MAIN];
+      const { manager, connection, sent } = fakeSession(
+        (command, _args, id) => {
+          switch (command) {
+            case 'breakpoint_set':
+              return { attributes: 'id="17"' };
+            case 'run':
+              runId = id;
+              return null;
+            case 'stack_get':
+              return stackReply(frames);
+            default:
+              return undefined;
+          }
+        },
+        { location: { file: MAIN.file, line: 5 }, stackDepth: 1, timeout: 50 }
+      );
+
+      await manager.executeAction('run_to_line', target);
+      expect(sent.some((line) => line.startsWith('breakpoint_remove'))).toBe(false);
+
+      // The run response arrives once the script reaches the target
+      frames = [{ ...MAIN, line: 30 }];
+      receive(connection, response('run', runId, breakReply(MAIN.file, 30)));
+
+      await vi.waitFor(() => {
+        expect(manager.getSession()).toMatchObject({
+          status: 'paused',
+          pauseReason: 'step_complete',
+          location: { line: 30 },
+        });
+      });
+    });
+  });
+
+  describe('pause', () => {
+    it('should pause a running script through the late run response', async () => {
+      let runId = '';
+      let frames: FakeFrame[] = [MAIN];
+      const fake = fakeSession(
+        (command, _args, id) => {
+          switch (command) {
+            case 'run':
+              runId = id;
+              return null;
+            case 'break':
+              // XDebug answers the break, then the interrupted run
+              setImmediate(() => {
+                frames = [{ file: '/app/src/Worker.php', line: 44, where: 'App\\Worker->poll' }, MAIN];
+                receive(fake.connection, response('run', runId, breakReply('/app/src/Worker.php', 44)));
+              });
+              return { attributes: 'status="break" reason="ok"' };
+            case 'stack_get':
+              return stackReply(frames);
+            default:
+              return undefined;
+          }
+        },
+        { location: { file: MAIN.file, line: 5 }, stackDepth: 1, supportsAsync: true, timeout: 50 }
+      );
+
+      expect((await fake.manager.executeAction('continue')).status).toBe('running');
+
+      const session = await fake.manager.executeAction('pause');
+
+      expect(session).toMatchObject({
+        status: 'paused',
+        pauseReason: 'user_break',
+        location: { file: '/app/src/Worker.php', line: 44 },
+      });
+    });
+  });
+
+  describe('detach', () => {
+    it('should detach and forget engine breakpoint ids without removing breakpoints', async () => {
+      const { manager, sent } = fakeSession(() => undefined, {
+        location: { file: MAIN.file, line: 5 },
+        stackDepth: 1,
+        breakpoints: [{ type: 'line', file: MAIN.file, line: 10, enabled: true, id: 9 }],
+      });
+
+      const session = await manager.executeAction('detach');
+
+      expect(sent.map((line) => line.split(' ')[0])).toEqual(['detach']);
+      expect(session.status).toBe('stopped');
+      expect([...session.breakpoints.values()][0]?.id).toBeUndefined();
+    });
+
+    it('should refuse to detach a running script without async support', async () => {
+      const { manager, sent } = fakeSession((command) => (command === 'run' ? null : undefined), {
+        location: { file: MAIN.file, line: 5 },
+        stackDepth: 1,
+        timeout: 50,
+      });
+      await manager.executeAction('continue');
+
+      await expect(manager.executeAction('detach')).rejects.toThrow(AsyncBreakUnsupportedError);
+      expect(sent.map((line) => line.split(' ')[0])).toEqual(['run']);
+    });
+  });
+
+  describe('step_out', () => {
+    it('should capture the return value of the function stepped out of', async () => {
+      let frames: FakeFrame[] = [{ file: '/app/src/Cart.php', line: 20, where: 'App\\Cart->total' }, MAIN];
+      const { manager, sent } = fakeSession(
+        (command) => {
+          switch (command) {
+            case 'step_out':
+              frames = [{ ...MAIN, line: 6 }];
+              return breakReply(MAIN.file, 6);
+            case 'stack_get':
+              return stackReply(frames);
+            case 'property_get':
+              return '<property name="$__RETURN_VALUE" fullname="$__RETURN_VALUE" type="float"><![CDATA[99.5]]></property>';
+            default:
+              return undefined;
+          }
+        },
+        {
+          location: { file: '/app/src/Cart.php', line: 20, function: 'App\\Cart->total' },
+          stackDepth: 2,
+          supportsReturnValue: true,
+        }
+      );
+
+      const session = await manager.executeAction('step_out');
+
+      expect(sent.some((line) => line.startsWith('property_get') && line.includes('$__RETURN_VALUE'))).toBe(true);
+      expect(session.returnValue).toMatchObject({
+        function: 'App\\Cart->total',
+        value: { type: 'float', value: 99.5 },
+      });
+    });
+  });
+});
+
@@ -98,6 +98,180 @@ describe('SessionRecorder', () => {
     });
   });
 
+  describe('modification recording', () => {
+    it('should include modifications in the session summary', async () => {
+      await recorder.initSession('test-session-9');
+
+      await recorder.recordStep('test-session-9', 1, {
+        file: '/app/OrderService.php',
+        line: 30,
+      }, 'breakpoint_hit');
+
+      await recorder.recordModification(
+        'test-session-9',
+        1,
+        { file: '/app/OrderService.php', line: 30 },
+        '$discount',
+        15,
+        0
+      );
+
+      const summary = await recorder.finalizeSession('test-session-9');
+
+      expect(summary?.variablesModified).toHaveLength(1);
+      expect(summary?.variablesModified[0]).toMatchObject({
+        stepNumber: 1,
+        variableName: '$discount',
+        oldValue: 15,
+        newValue: 0,
+      });
+    });
+  });
+
+  describe('snapshot recording', () => {
+    it('should skip values unchanged since the previous snapshot', async () => {
+      await recorder.initSession('test-session-11');
+      const location = { file: '/app/test.php', line: 5 };
+
+      const first = await recorder.recordSnapshot('test-session-11', 1, location, [
+        { name: '$status', type: 'string', value: 'pending' },
+        { name: '$count', type: 'int', value: 1 },
+      ], 4096);
+      const second = await recorder.recordSnapshot('test-session-11', 2, location, [
+        { name: '$status', type: 'string', value: 'paid' },
+        { name: '$count', type: 'int', value: 1 },
+      ], 4096);
+
+      expect(first).toBe(2);
+      expect(second).toBe(1);
+
+      const history = await recorder.getVariableHistory('test-session-11', '$count', 2, 5);
+      expect(history).toHaveLength(1);
+      expect(history[0]?.step).toBe(1);
+    });
+
+    it('should keep equal values of same-named locals in different frames', async () => {
+      await recorder.initSession('test-session-15');
+      const id = [{ name: '$id', type: 'int', value: 7 }];
+
+      const controller = await recorder.recordSnapshot('test-session-15', 1,
+        { file: '/app/OrderController.php', line: 20, function: 'OrderController->show' }, id, 4096);
+      const service = await recorder.recordSnapshot('test-session-15', 2,
+        { file: '/app/OrderService.php', line: 31, function: 'OrderService->find' }, id, 4096);
+      const back = await recorder.recordSnapshot('test-session-15', 3,
+        { file: '/app/OrderController.php', line: 21, function: 'OrderController->show' }, id, 4096);
+
+      expect([controller, service, back]).toEqual([1, 1, 0]);
+      const history = await recorder.getVariableHistory('test-session-15', '$id', 3, 5);
+      expect(history.map((h) => h.step)).toEqual([2, 1]);
+    });
+
+    it('should keep snapshots out of the inspected variables', async () => {
+      await recorder.initSession('test-session-16');
+      const location = { file: '/app/test.php', line: 5 };
+
+      await recorder.recordSnapshot('test-session-16', 1, location, [
+        { name: '$total', type: 'float', value: 99.5 },
+      ], 4096);
+      await recorder.recordVariable('test-session-16', 2, location, '$order', { id: 7 });
+
+      const history = await recorder.getVariableHistory('test-session-16', '$total', 2, 5);
+      expect(history).toHaveLength(1);
+
+      const summary = await recorder.finalizeSession('test-session-16');
+      expect(summary?.variablesInspected).toEqual(['$order']);
+    });
+
+    it('should store oversized values as a summary', async () => {
+      await recorder.initSession('test-session-12');
+
+      await recorder.recordSnapshot('test-session-12', 1, { file: '/app/test.php', line: 5 }, [
+        { name: '$blob', type: 'string', value: 'x'.repeat(1000) },
+      ], 256);
+
+      const history = await recorder.getVariableHistory('test-session-12', '$blob', 1, 1);
+      expect(history[0]?.value).toMatchObject({ type: 'string', truncated: true });
+    });
+  });
+
+  describe('exception recording', () => {
+    it('should include exceptions and their causes in the session summary', async () => {
+      await recorder.initSession('test-session-13');
+
+      await recorder.recordException(
+        'test-session-13',
+        1,
+        { file: '/app/PaymentService.php', line: 88 },
+        {
+          class: 'App\\Exceptions\\PaymentFailed',
+          message: 'Card declined',
+          code: 402,
+          previous: [{ class: 'GuzzleHttp\\Exception\\ClientException', message: '402 Payment Required' }],
+          trace: [{ file: '/app/PaymentService.php', line: 88, function: 'App\\PaymentService->charge' }],
+        }
+      );
+
+      const summary = await recorder.finalizeSession('test-session-13');
+
+      expect(summary?.exceptions).toHaveLength(1);
+      expect(summary?.exceptions[0]).toMatchObject({
+        stepNumber: 1,
+        location: { file: '/app/PaymentService.php', line: 88 },
+        exception: {
+          class: 'App\\Exceptions\\PaymentFailed',
+          message: 'Card declined',
+          code: '402',
+          previous: [{ class: 'GuzzleHttp\\Exception\\ClientException' }],
+        },
+      });
+    });
+  });
+
+  describe('PHP error recording', () => {
+    it('should include notified PHP errors in the session summary', async () => {
+      await recorder.initSession('test-session-14');
+
+      await recorder.recordPhpError('test-session-14', {
+        type: 'php_error',
+        timestamp: new Date().toISOString(),
+        stepNumber: 0,
+        location: { file: '/app/CartController.php', line: 31 },
+        level: 'Warning',
+        message: 'Undefined array key "qty"',
+      });
+
+      const summary = await recorder.finalizeSession('test-session-14');
+
+      expect(summary?.phpErrors).toHaveLength(1);
+      expect(summary?.phpErrors[0]).toMatchObject({
+        location: { file: '/app/CartController.php', line: 31 },
+        level: 'Warning',
+        message: 'Undefined array key "qty"',
+      });
+    });
+  });
+
+  describe('log recording', () => {
+    it('should include logpoint messages in the session summary', async () => {
+      await recorder.initSession('test-session-10');
+
+      await recorder.recordLog('test-session-10', {
+        stepNumber: 0,
+        location: { file: '/app/OrderService.php', line: 42 },
+        message: 'order 17 total=99.5',
+        timestamp: new Date().toISOString(),
+      });
+
+      const summary = await recorder.finalizeSession('test-session-10');
+
+      expect(summary?.logMessages).toHaveLength(1);
+      expect(summary?.logMessages[0]).toMatchObject({
+        location: { file: '/app/OrderService.php', line: 42 },
+        message: 'order 17 total=99.5',
+      });
+    });
+  });
+
   describe('variable history', () => {
     it('should record and retrieve variable history', async () => {
       await recorder.initSession('test-session-5');
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleSetBreakpoint } from '../src/tools/set-breakpoint.js';
+import type { DebugSessionManager } from '../src/debug/session-manager.js';
+import type { BreakpointConfig } from '../src/types/index.js';
+
+describe('handleSetBreakpoint', () => {
+  let mockSessionManager: DebugSessionManager;
+
+  beforeEach(() => {
+    mockSessionManager = {
+      setBreakpoint: vi.fn(async (config: BreakpointConfig) => ({
+        ...config,
+        type: config.type ?? 'line',
+        id: 7,
+      })),
+    } as unknown as DebugSessionManager;
+  });
+
+  describe('line breakpoints', () => {
+    it('should default to line type', async () => {
+      const result = await handleSetBreakpoint(
+        { file: 'app/Services/OrderService.php', line: 42 },
+        mockSessionManager
+      );
+
+      expect(mockSessionManager.setBreakpoint).toHaveBeenCalledWith({
+        file: 'app/Services/OrderService.php',
+        line: 42,
+        condition: undefined,
+      });
+      expect(result).toMatchObject({
+        success: true,
+        breakpoint: { id: 7, type: 'line', line: 42 },
+      });
+    });
+
+    it('should require file and line', async () => {
+      await expect(
+        handleSetBreakpoint({ file: 'app/Services/OrderService.php' }, mockSessionManager)
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('hit options', () => {
+    it('should pass hit count, condition and temporary flag', async () => {
+      const result = await handleSetBreakpoint(
+        { file: 'app/Services/OrderService.php', line: 42, hit_count: 500, hit_condition: '==', temporary: true },
+        mockSessionManager
+      );
+
+      expect(mockSessionManager.setBreakpoint).toHaveBeenCalledWith(
+        expect.objectContaining({ hitValue: 500, hitCondition: '==', temporary: true })
+      );
+      expect(result).toMatchObject({
+        breakpoint: { hit_count: 500, hit_condition: '==', temporary: true },
+      });
+    });
+
+    it("should default hit condition to '>='", async () => {
+      await handleSetBreakpoint(
+        { file: 'app/Services/OrderService.php', line: 42, hit_count: 10 },
+        mockSessionManager
+      );
+
+      expect(mockSessionManager.setBreakpoint).toHaveBeenCalledWith(
+        expect.objectContaining({ hitValue: 10, hitCondition: '>=' })
+      );
+    });
+
+    it('should reject hit_condition without hit_count', async () => {
+      await expect(
+        handleSetBreakpoint(
+          { file: 'app/Services/OrderService.php', line: 42, hit_condition: '%' },
+          mockSessionManager
+        )
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('non-line breakpoints', () => {
+    it('should set call breakpoints on a method', async () => {
+      const result = await handleSetBreakpoint(
+        { type: 'call', function: 'App\\Services\\OrderService::process' },
+        mockSessionManager
+      );
+
+      expect(mockSessionManager.setBreakpoint).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'call',
+          function: 'App\\Services\\OrderService::process',
+        })
+      );
+      expect(result).toMatchObject({
+        message: 'Breakpoint set: break on entry to App\\Services\\OrderService::process',
+      });
+    });
+
+    it('should set exception breakpoints on a class', async () => {
+      const result = await handleSetBreakpoint(
+        { type: 'exception', exception: 'RuntimeException' },
+        mockSessionManager
+      );
+
+      expect(result).toMatchObject({
+        breakpoint: { type: 'exception', exception: 'RuntimeException' },
+      });
+    });
+
+    it('should reject call breakpoints without a function', async () => {
+      await expect(
+        handleSetBreakpoint({ type: 'call' }, mockSessionManager)
+      ).rejects.toThrow();
+      expect(mockSessionManager.setBreakpoint).not.toHaveBeenCalled();
+    });
+  });
+});
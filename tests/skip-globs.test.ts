@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchesSkipGlob } from '../src/debug/skip-globs.js';
+
+describe('globToRegExp', () => {
+  it('should keep single stars within one path segment', () => {
+    const re = globToRegExp('vendor/*.php');
+    expect(re.test('vendor/autoload.php')).toBe(true);
+    expect(re.test('vendor/laravel/framework.php')).toBe(false);
+  });
+
+  it('should let double stars span directories', () => {
+    const re = globToRegExp('vendor/**');
+    expect(re.test('vendor/laravel/framework/src/Illuminate/Pipeline/Pipeline.php')).toBe(true);
+    expect(re.test('app/vendor.php')).toBe(false);
+  });
+
+  it('should let **/ match zero directories', () => {
+    const re = globToRegExp('**/Middleware/*.php');
+    expect(re.test('Middleware/Auth.php')).toBe(true);
+    expect(re.test('app/Http/Middleware/Auth.php')).toBe(true);
+  });
+
+  it('should escape regex characters', () => {
+    expect(globToRegExp('lib/a+b.php').test('lib/a+b.php')).toBe(true);
+    expect(globToRegExp('lib/a.php').test('lib/aXphp')).toBe(false);
+  });
+});
+
+describe('matchesSkipGlob', () => {
+  const match = (file: string, relative: string | undefined, globs = ['vendor/**']) =>
+    matchesSkipGlob(file, relative, globs);
+
+  it('should match vendor frames relative to the project root', () => {
+    expect(match(
+      '/home/dev/shop/vendor/laravel/framework/src/Illuminate/Pipeline/Pipeline.php',
+      'vendor/laravel/framework/src/Illuminate/Pipeline/Pipeline.php'
+    )).toBe(true);
+  });
+
+  it('should not match application files', () => {
+    expect(match('/home/dev/shop/app/Services/OrderService.php', 'app/Services/OrderService.php')).toBe(false);
+    expect(match('/home/dev/shop/app/Vendors/Stripe.php', 'app/Vendors/Stripe.php')).toBe(false);
+  });
+
+  it('should not skip a project that lives under a directory named vendor', () => {
+    expect(match('/srv/vendor/shop/app/Http/Kernel.php', 'app/Http/Kernel.php')).toBe(false);
+  });
+
+  it('should not match relative globs outside the project root', () => {
+    expect(match('/usr/share/php/vendor/autoload.php', undefined)).toBe(false);
+  });
+
+  it('should match absolute globs against the full path', () => {
+    expect(match('/usr/share/php/PEAR.php', undefined, ['/usr/share/php/**'])).toBe(true);
+  });
+
+  it('should match against any of several globs', () => {
+    const globs = ['vendor/**', './bootstrap/cache/*.php'];
+    expect(match('/srv/app/bootstrap/cache/services.php', 'bootstrap/cache/services.php', globs)).toBe(true);
+  });
+
+  it('should normalize Windows separators', () => {
+    expect(match('C:\\projects\\shop\\vendor\\autoload.php', 'vendor\\autoload.php')).toBe(true);
+  });
+
+  it('should match nothing without globs', () => {
+    expect(match('/srv/app/vendor/autoload.php', 'vendor/autoload.php', [])).toBe(false);
+  });
+});
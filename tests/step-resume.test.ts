@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { resumeCommand } from '../src/debug/step-resume.js';
+
+describe('resumeCommand', () => {
+  it('should step out of callees back to a step_over frame, then step over', () => {
+    expect(resumeCommand({ command: 'step_over', depth: 2 }, 4)).toBe('step_out');
+    expect(resumeCommand({ command: 'step_over', depth: 2 }, 2)).toBe('step_over');
+  });
+
+  it('should keep stepping out until a step_out has left its frame', () => {
+    expect(resumeCommand({ command: 'step_out', depth: 3 }, 3)).toBe('step_out');
+    expect(resumeCommand({ command: 'step_out', depth: 3 }, 2)).toBe('step_over');
+  });
+
+  it('should re-issue run and step_into', () => {
+    expect(resumeCommand({ command: 'run', depth: 1 }, 5)).toBe('run');
+    expect(resumeCommand({ command: 'step_into', depth: 1 }, 5)).toBe('step_into');
+  });
+});
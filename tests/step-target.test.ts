@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canUseCallBreakpoint,
+  matchesFunction,
+  nextTargetStep,
+} from '../src/debug/step-target.js';
+import type { StepPosition } from '../src/debug/step-target.js';
+
+describe('matchesFunction', () => {
+  const where = 'App\\Services\\TaxCalculator->apply';
+
+  it('should match a bare method name', () => {
+    expect(matchesFunction(where, 'apply')).toBe(true);
+  });
+
+  it('should match short and fully-qualified class names with either separator', () => {
+    expect(matchesFunction(where, 'TaxCalculator::apply')).toBe(true);
+    expect(matchesFunction(where, 'TaxCalculator->apply')).toBe(true);
+    expect(matchesFunction(where, '\\App\\Services\\TaxCalculator::apply')).toBe(true);
+  });
+
+  it('should not match other methods or partial names', () => {
+    expect(matchesFunction(where, 'ply')).toBe(false);
+    expect(matchesFunction(where, 'Calculator::apply')).toBe(false);
+    expect(matchesFunction('App\\Repositories\\RateRepository->lookup', 'apply')).toBe(false);
+    expect(matchesFunction(undefined, 'apply')).toBe(false);
+  });
+
+  it('should match plain functions', () => {
+    expect(matchesFunction('apply_discount', 'apply_discount')).toBe(true);
+  });
+});
+
+describe('canUseCallBreakpoint', () => {
+  it('should only use call breakpoints for fully-qualified methods', () => {
+    expect(canUseCallBreakpoint('App\\Services\\TaxCalculator::apply')).toBe(true);
+    expect(canUseCallBreakpoint('\\App\\Services\\TaxCalculator->apply')).toBe(true);
+    expect(canUseCallBreakpoint('TaxCalculator::apply')).toBe(false);
+    expect(canUseCallBreakpoint('apply')).toBe(false);
+  });
+});
+
+describe('nextTargetStep', () => {
+  // $total = $this->tax->apply($this->rates->lookup($region), $subtotal);
+  const origin: StepPosition = {
+    file: '/app/Services/OrderService.php',
+    line: 42,
+    depth: 3,
+    function: 'App\\Services\\OrderService->total',
+  };
+
+  it('should step out of calls on the line that are not the target', () => {
+    const lookup = { file: '/app/Repositories/RateRepository.php', line: 12, depth: 4, function: 'App\\Repositories\\RateRepository->lookup' };
+    expect(nextTargetStep(origin, lookup, 'apply')).toBe('step_out');
+  });
+
+  it('should keep stepping into while still on the line', () => {
+    expect(nextTargetStep(origin, { ...origin }, 'apply')).toBe('step_into');
+  });
+
+  it('should stop once the bare-named target is entered', () => {
+    const apply = { file: '/app/Services/TaxCalculator.php', line: 20, depth: 4, function: 'App\\Services\\TaxCalculator->apply' };
+    expect(nextTargetStep(origin, apply, 'apply')).toBe('entered');
+  });
+
+  it('should stop when execution leaves the line', () => {
+    expect(nextTargetStep(origin, { ...origin, line: 43 }, 'apply')).toBe('left_line');
+    expect(nextTargetStep(origin, { ...origin, depth: 2, line: 88 }, 'apply')).toBe('left_line');
+  });
+});
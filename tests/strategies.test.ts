@@ -0,0 +1,63 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { applyStrategy, resolveStrategy } from '../src/debug/strategies.js';
+import { updateConfig } from '../src/config.js';
+import { ValidationError } from '../src/errors.js';
+
+describe('resolveStrategy', () => {
+  afterEach(() => {
+    updateConfig({ strategies: undefined });
+  });
+
+  it('should return built-in presets', () => {
+    expect(resolveStrategy('panic')).toMatchObject({ stopOnException: true, autoSnapshot: true });
+    expect(resolveStrategy('profile')).toMatchObject({ stopOnEntry: true, entryMode: 'app_code' });
+  });
+
+  it('should reject unknown names and list the available presets', () => {
+    expect(() => resolveStrategy('fast')).toThrow(ValidationError);
+    expect(() => resolveStrategy('fast')).toThrow(/standard, panic, profile/);
+  });
+
+  it('should include user-defined presets and let them replace built-ins', () => {
+    updateConfig({
+      strategies: {
+        api: { stopOnException: true, exceptionFilter: { exclude: ['ValidationException'] } },
+        panic: { stopOnException: true },
+      },
+    });
+
+    expect(resolveStrategy('api').exceptionFilter?.exclude).toEqual(['ValidationException']);
+    expect(resolveStrategy('panic').autoSnapshot).toBeUndefined();
+  });
+});
+
+describe('applyStrategy', () => {
+  it('should fill unset settings from the preset', () => {
+    const config = applyStrategy({ command: 'php artisan test', strategy: 'panic' });
+
+    expect(config.stopOnException).toBe(true);
+    expect(config.errorLevels).toEqual(['Warning']);
+    expect(config.exceptionFilter?.skipVendor).toBe(true);
+  });
+
+  it('should let explicit settings override the preset', () => {
+    const config = applyStrategy({
+      command: 'php artisan test',
+      strategy: 'panic',
+      autoSnapshot: false,
+      exceptionFilter: { exclude: ['NotFoundHttpException'] },
+    });
+
+    expect(config.autoSnapshot).toBe(false);
+    expect(config.exceptionFilter).toEqual({
+      include: undefined,
+      exclude: ['NotFoundHttpException'],
+      skipVendor: true,
+    });
+  });
+
+  it('should leave the config alone without a strategy', () => {
+    const config = { command: 'php index.php', stopOnEntry: true };
+    expect(applyStrategy(config)).toBe(config);
+  });
+});
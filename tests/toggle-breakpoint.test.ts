@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleToggleBreakpoint } from '../src/tools/toggle-breakpoint.js';
+import type { DebugSessionManager } from '../src/debug/session-manager.js';
+
+describe('handleToggleBreakpoint', () => {
+  let mockSessionManager: DebugSessionManager;
+
+  beforeEach(() => {
+    mockSessionManager = {
+      setBreakpointEnabled: vi.fn(),
+    } as unknown as DebugSessionManager;
+  });
+
+  it('should describe line breakpoints by location', async () => {
+    vi.mocked(mockSessionManager.setBreakpointEnabled).mockResolvedValue({
+      key: 'app/Services/OrderService.php:42',
+      config: { type: 'line', file: '/var/www/html/app/Services/OrderService.php', line: 42, id: 3 },
+    });
+
+    const result = await handleToggleBreakpoint({ id: 3, enabled: false }, mockSessionManager);
+
+    expect(result).toMatchObject({
+      message: 'Breakpoint app/Services/OrderService.php:42 disabled',
+    });
+  });
+
+  it('should describe call and exception breakpoints by target', async () => {
+    vi.mocked(mockSessionManager.setBreakpointEnabled)
+      .mockResolvedValueOnce({
+        key: 'call:App\\Services\\TaxCalculator::apply',
+        config: { type: 'call', function: 'App\\Services\\TaxCalculator::apply', id: 4 },
+      })
+      .mockResolvedValueOnce({
+        key: 'exception:PaymentFailed',
+        config: { type: 'exception', exception: 'PaymentFailed', id: 5 },
+      });
+
+    const call = await handleToggleBreakpoint({ id: 4, enabled: true }, mockSessionManager);
+    const exception = await handleToggleBreakpoint({ id: 5, enabled: false }, mockSessionManager);
+
+    expect(call).toMatchObject({ message: 'Breakpoint call App\\Services\\TaxCalculator::apply enabled' });
+    expect(exception).toMatchObject({ message: 'Breakpoint exception PaymentFailed disabled' });
+  });
+});